@@ -0,0 +1,346 @@
+import type { TemplateElement } from './templateAst'
+
+/**
+ * ARIA role of an element, explicit or implied by its tag
+ */
+export interface AccessibleRole {
+  role: string;
+  level?: number; // Heading level, h1 → 1
+}
+
+/**
+ * Role and accessible name of an element, as `getByRole(role, { name })`
+ * would match it
+ */
+export interface ElementAccessibility extends AccessibleRole {
+  name?: string;
+  dynamicName: boolean; // Part of the name is only known at runtime
+}
+
+/**
+ * How the template's values are read: an attribute's static value and an
+ * element's own text, each undefined when only known at runtime
+ */
+export interface AccessibilityResolvers {
+  getAttribute: (element: TemplateElement, name: string) => string | undefined;
+  getText: (element: TemplateElement) => string | undefined;
+}
+
+// Roles whose accessible name comes from the element's content
+const nameFromContentRoles = new Set([
+  'button',
+  'cell',
+  'checkbox',
+  'columnheader',
+  'gridcell',
+  'heading',
+  'link',
+  'menuitem',
+  'menuitemcheckbox',
+  'menuitemradio',
+  'option',
+  'radio',
+  'row',
+  'rowheader',
+  'switch',
+  'tab',
+  'tooltip',
+  'treeitem'
+])
+
+// Elements a <label> can label
+const labelableElements = new Set([
+  'button',
+  'input',
+  'meter',
+  'output',
+  'progress',
+  'select',
+  'textarea'
+])
+
+// Implicit roles of <input> by type
+const inputRoles: Record<string, string> = {
+  button: 'button',
+  checkbox: 'checkbox',
+  email: 'textbox',
+  image: 'button',
+  number: 'spinbutton',
+  radio: 'radio',
+  range: 'slider',
+  reset: 'button',
+  search: 'searchbox',
+  submit: 'button',
+  tel: 'textbox',
+  text: 'textbox',
+  url: 'textbox'
+}
+
+// Implicit roles of other native elements
+const elementRoles: Record<string, string> = {
+  article: 'article',
+  aside: 'complementary',
+  button: 'button',
+  dialog: 'dialog',
+  footer: 'contentinfo',
+  header: 'banner',
+  hr: 'separator',
+  li: 'listitem',
+  main: 'main',
+  nav: 'navigation',
+  ol: 'list',
+  optgroup: 'group',
+  option: 'option',
+  output: 'status',
+  progress: 'progressbar',
+  table: 'table',
+  tbody: 'rowgroup',
+  td: 'cell',
+  textarea: 'textbox',
+  th: 'columnheader',
+  thead: 'rowgroup',
+  tr: 'row',
+  ul: 'list'
+}
+
+/**
+ * The role an element exposes: its `role` attribute, else the implicit role
+ * of its tag (`<a href>` → link, `<input type="checkbox">` → checkbox,
+ * `<h2>` → heading level 2)
+ */
+export function getElementRole(
+  element: TemplateElement,
+  resolvers: AccessibilityResolvers
+): AccessibleRole | undefined {
+  const explicit = resolvers
+    .getAttribute(element, 'role')
+    ?.trim()
+    .split(/\s+/)[0]
+  if (explicit) {
+    return { role: explicit, level: getHeadingLevel(element, resolvers) }
+  }
+
+  return getImplicitRole(element, resolvers)
+}
+
+/**
+ * Implicit ARIA role of a native element, from its tag and attributes
+ */
+export function getImplicitRole(
+  element: TemplateElement,
+  resolvers: AccessibilityResolvers
+): AccessibleRole | undefined {
+  const tag = element.tag.toLowerCase()
+  const hasAttribute = (name: string) => Boolean(element.attributes[name])
+
+  const heading = /^h([1-6])$/.exec(tag)
+  if (heading) return { role: 'heading', level: Number(heading[1]) }
+
+  switch (tag) {
+    case 'a':
+    case 'area':
+      return hasAttribute('href') ? { role: 'link' } : undefined
+    case 'img':
+      return resolvers.getAttribute(element, 'alt') === ''
+        ? { role: 'presentation' }
+        : { role: 'img' }
+    case 'input': {
+      const type = (
+        resolvers.getAttribute(element, 'type') || 'text'
+      ).toLowerCase()
+      // Text inputs with a <datalist> suggest values
+      if (
+        ['text', 'search', 'email', 'tel', 'url'].includes(type) &&
+        hasAttribute('list')
+      ) {
+        return { role: 'combobox' }
+      }
+      const role = inputRoles[type]
+      return role ? { role } : undefined
+    }
+    case 'select': {
+      const size = Number(resolvers.getAttribute(element, 'size') || 0)
+      return hasAttribute('multiple') || size > 1
+        ? { role: 'listbox' }
+        : { role: 'combobox' }
+    }
+    case 'form':
+    case 'section':
+      // Only named forms and sections are landmarks
+      return hasAttribute('aria-label') || hasAttribute('aria-labelledby')
+        ? { role: tag === 'form' ? 'form' : 'region' }
+        : undefined
+    default: {
+      const role = elementRoles[tag]
+      return role ? { role } : undefined
+    }
+  }
+}
+
+/**
+ * Accessible name of an element, following the order browsers use:
+ * `aria-labelledby` targets, `aria-label`, an associated `<label>`, `alt`,
+ * the element's content for roles named by it, then `title` and
+ * `placeholder`. Null when part of the name is only known at runtime,
+ * undefined when there is none
+ */
+export function computeAccessibleName(
+  element: TemplateElement,
+  role: AccessibleRole | undefined,
+  elements: TemplateElement[],
+  resolvers: AccessibilityResolvers
+): string | null | undefined {
+  const { getAttribute } = resolvers
+
+  if (element.attributes['aria-labelledby']) {
+    const ids = getAttribute(element, 'aria-labelledby')
+    if (ids === undefined) return null
+    const texts = ids
+      .split(/\s+/)
+      .filter(Boolean)
+      .map((id) => {
+        const target = elements.find(
+          (candidate) => getAttribute(candidate, 'id') === id
+        )
+        return target && getSubtreeText(target, resolvers)
+      })
+    if (texts.some((text) => text === undefined)) return null
+    const name = normalize(texts.join(' '))
+    if (name) return name
+  }
+
+  if (element.attributes['aria-label']) {
+    const label = getAttribute(element, 'aria-label')
+    if (label === undefined) return null
+    if (normalize(label)) return normalize(label)
+  }
+
+  const label = findLabel(element, elements, resolvers)
+  if (label) {
+    const text = getSubtreeText(label, resolvers, element)
+    if (text === undefined) return null
+    if (normalize(text)) return normalize(text)
+  }
+
+  const tag = element.tag.toLowerCase()
+  const type = getAttribute(element, 'type')?.toLowerCase()
+  if (
+    tag === 'img' ||
+    tag === 'area' ||
+    (tag === 'input' && type === 'image')
+  ) {
+    const alt = getAttribute(element, 'alt')
+    if (alt) return normalize(alt)
+  }
+
+  if (tag === 'input') {
+    if (type === 'submit' || type === 'reset' || type === 'button') {
+      const value = getAttribute(element, 'value')
+      if (value) return normalize(value)
+      if (type === 'submit') return 'Submit'
+      if (type === 'reset') return 'Reset'
+    }
+  }
+
+  if (role && nameFromContentRoles.has(role.role)) {
+    const text = getSubtreeText(element, resolvers)
+    if (text === undefined) return null
+    if (normalize(text)) return normalize(text)
+  }
+
+  const fallback =
+    getAttribute(element, 'title') || getAttribute(element, 'placeholder')
+  return fallback ? normalize(fallback) : undefined
+}
+
+/**
+ * Role and accessible name of an element. `role` replaces the element's own
+ * role, e.g. for a component that renders a known control
+ */
+export function describeAccessibility(
+  element: TemplateElement,
+  elements: TemplateElement[],
+  resolvers: AccessibilityResolvers,
+  role: AccessibleRole | undefined = getElementRole(element, resolvers)
+): ElementAccessibility | undefined {
+  if (!role || ['presentation', 'none'].includes(role.role)) return undefined
+  const name = computeAccessibleName(element, role, elements, resolvers)
+  return { ...role, name: name ?? undefined, dynamicName: name === null }
+}
+
+/**
+ * The `<label>` of a labelable element: one whose `for` matches its id,
+ * else a `<label>` wrapping it
+ */
+export function findLabel(
+  element: TemplateElement,
+  elements: TemplateElement[],
+  resolvers: AccessibilityResolvers
+): TemplateElement | undefined {
+  if (!labelableElements.has(element.tag.toLowerCase())) return undefined
+  if (resolvers.getAttribute(element, 'type') === 'hidden') return undefined
+
+  const id = resolvers.getAttribute(element, 'id')
+  if (id) {
+    const explicit = elements.find(
+      (candidate) =>
+        candidate.tag === 'label' &&
+        resolvers.getAttribute(candidate, 'for') === id
+    )
+    if (explicit) return explicit
+  }
+
+  for (let parent = element.parent; parent; parent = parent.parent) {
+    if (parent.tag === 'label') return parent
+  }
+  return undefined
+}
+
+/**
+ * Text of a control's label, without the control itself. Undefined when
+ * part of it is only known at runtime
+ */
+export function getLabelText(
+  label: TemplateElement,
+  control: TemplateElement,
+  resolvers: AccessibilityResolvers
+): string | undefined {
+  return getSubtreeText(label, resolvers, control)
+}
+
+function getHeadingLevel(
+  element: TemplateElement,
+  resolvers: AccessibilityResolvers
+): number | undefined {
+  const heading = /^h([1-6])$/i.exec(element.tag)
+  const level = resolvers.getAttribute(element, 'aria-level')
+  if (level && !Number.isNaN(Number(level))) return Number(level)
+  return heading ? Number(heading[1]) : undefined
+}
+
+/**
+ * Text of an element and its descendants, skipping `exclude` (a control
+ * inside its own label) and `aria-hidden` subtrees
+ */
+function getSubtreeText(
+  element: TemplateElement,
+  resolvers: AccessibilityResolvers,
+  exclude?: TemplateElement
+): string | undefined {
+  const own = resolvers.getText(element)
+  if (own === undefined) return undefined
+
+  const parts = [own]
+  for (const child of element.children) {
+    if (child === exclude) continue
+    if (resolvers.getAttribute(child, 'aria-hidden') === 'true') continue
+    const text = getSubtreeText(child, resolvers, exclude)
+    if (text === undefined) return undefined
+    parts.push(text)
+  }
+  return normalize(parts.join(' '))
+}
+
+function normalize(text: string): string {
+  return text.replace(/\s+/g, ' ').trim()
+}
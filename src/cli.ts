@@ -0,0 +1,343 @@
+/**
+ * Command line of the extractor: subcommands, flags and help text
+ */
+
+export const commands = ['scan', 'generate', 'report', 'check'] as const
+export type Command = (typeof commands)[number]
+
+// Test frameworks Page Objects are generated for
+export const targets = [
+  'playwright',
+  'cypress',
+  'webdriverio',
+  'selenium-ts',
+  'selenium-java'
+] as const
+export type Target = (typeof targets)[number]
+export type WebDriverTarget = Exclude<Target, 'playwright' | 'cypress'>
+
+// Files `generate` can write, by their name in the output directory
+export const outputFormats = [
+  'pageObjects',
+  'fragileLocators',
+  'locatorMap',
+  'fragileLocatorMap',
+  'messages',
+  'routePageObjects',
+  'inventory',
+  'sarif',
+  'cypressCommands',
+  'componentQueries'
+] as const
+export type OutputFormat = (typeof outputFormats)[number]
+
+// File each format is written to
+export const outputFiles: Record<OutputFormat, string> = {
+  pageObjects: 'pageObjects.ts',
+  fragileLocators: 'fragileLocators.ts',
+  locatorMap: 'locatorMap.ts',
+  fragileLocatorMap: 'fragileLocatorMap.ts',
+  messages: 'messages.ts',
+  routePageObjects: 'routePageObjects.ts',
+  inventory: 'inventory.json', // With inventory.schema.json
+  sarif: 'locators.sarif',
+  cypressCommands: 'cypressCommands.ts', // Cypress target only
+  componentQueries: 'componentQueries' // Directory, one module per SFC
+}
+
+// How Page Objects are split into files: one file for all of them, or a
+// mirrored module per source file (and per route) with index.ts barrels
+export const layouts = ['single', 'per-file'] as const
+export type Layout = (typeof layouts)[number]
+
+export type RobustnessFilter = 'all' | 'robust' | 'fragile'
+export type Verbosity = 'quiet' | 'normal' | 'verbose'
+
+export interface CliOptions {
+  command: Command;
+  projectPath: string;
+  outDir: string;
+  include: string[];
+  exclude: string[];
+  formats: OutputFormat[];
+  target: Target;
+  layout: Layout;
+  robustness: RobustnessFilter;
+  verbosity: Verbosity;
+  locale?: string;
+  configFile?: string; // Config file; found in the project when omitted
+  maxFragile: number; // check: most fragile locators allowed
+  minRobustness: number; // check: lowest robustness ratio allowed, in percent
+  help: boolean;
+}
+
+// Process exit codes
+export const exitCodes = {
+  success: 0,
+  checkFailed: 1, // `check` found problems
+  usage: 2, // Unknown command, flag or flag value
+  error: 3 // Extraction or output failed
+} as const
+
+/**
+ * Invalid command line; reported with a pointer to `--help` and exit code 2
+ */
+export class CliUsageError extends Error {
+  constructor(message: string) {
+    super(message)
+    this.name = 'CliUsageError'
+  }
+}
+
+export const helpText = `Usage: extract [command] [project] [options]
+
+Extract Playwright locators from a Vue project.
+
+Commands:
+  scan       List the locators found in each file
+  generate   Write Page Objects, locator maps, the JSON inventory and SARIF (default)
+  report     Print the analysis summary, warnings and diagnostics
+  check      Exit with code 1 when locators fall short of the thresholds
+
+Arguments:
+  project    Project directory to scan (default: ./test-vue-src)
+
+Options:
+  -o, --out-dir <dir>         Directory generated files are written to (default: ./output)
+  -i, --include <glob>        Only extract from files matching the glob; repeatable
+  -x, --exclude <glob>        Skip files matching the glob; repeatable
+  -f, --format <list>         Files to generate, comma-separated (default: all):
+                              ${outputFormats.join(', ')}
+  -t, --target <framework>    Page Objects for playwright, cypress, webdriverio,
+                              selenium-ts or selenium-java (default: playwright)
+      --layout <layout>       single file, or per-file modules with index.ts barrels
+                              (playwright only; default: single)
+  -r, --robustness <filter>   Locators to include: all, robust or fragile (default: all)
+  -l, --locale <locale>       vue-i18n locale to resolve translated text in
+  -c, --config <file>         Config file (default: locator-extractor.config.(ts|js|json)
+                              in the project, then the working directory)
+      --max-fragile <n>       check: most fragile locators allowed (default: 0)
+      --min-robustness <pct>  check: lowest robustness ratio allowed (default: 0)
+  -q, --quiet                 Print only failures and errors
+  -v, --verbose               Also print scanning progress
+  -h, --help                  Show this help
+
+Exit codes:
+  0  Success
+  1  check found problems
+  2  Invalid command line
+  3  Extraction failed
+
+Examples:
+  extract generate ./src --out-dir e2e/locators --format pageObjects,locatorMap
+  extract generate ./src --target cypress --out-dir cypress/pages
+  extract generate ./src --layout per-file --out-dir e2e/pages
+  extract check ./src --exclude "**/legacy/**" --max-fragile 10 --quiet
+  extract report ./src --robustness fragile`
+
+// Flags that take a value, by their short and long names
+const valueFlags: Record<string, string> = {
+  '-o': '--out-dir',
+  '-i': '--include',
+  '-x': '--exclude',
+  '-f': '--format',
+  '-t': '--target',
+  '-r': '--robustness',
+  '-l': '--locale',
+  '-c': '--config',
+  '--out-dir': '--out-dir',
+  '--include': '--include',
+  '--exclude': '--exclude',
+  '--format': '--format',
+  '--target': '--target',
+  '--layout': '--layout',
+  '--robustness': '--robustness',
+  '--locale': '--locale',
+  '--config': '--config',
+  '--max-fragile': '--max-fragile',
+  '--min-robustness': '--min-robustness'
+}
+
+const booleanFlags: Record<string, string> = {
+  '-q': '--quiet',
+  '-v': '--verbose',
+  '-h': '--help',
+  '--quiet': '--quiet',
+  '--verbose': '--verbose',
+  '--help': '--help'
+}
+
+/**
+ * Parse the arguments after `node script`. The command may be omitted,
+ * in which case files are generated, so `extract ./src` keeps working
+ */
+export function parseCliArgs(argv: string[]): CliOptions {
+  const options: CliOptions = {
+    command: 'generate',
+    projectPath: './test-vue-src',
+    outDir: './output',
+    include: [],
+    exclude: [],
+    formats: [...outputFormats],
+    target: 'playwright',
+    layout: 'single',
+    robustness: 'all',
+    verbosity: 'normal',
+    maxFragile: 0,
+    minRobustness: 0,
+    help: false
+  }
+  // Asking for help wins over any mistake elsewhere on the command line
+  if (argv.some((arg) => booleanFlags[arg] === '--help')) {
+    return { ...options, help: true }
+  }
+
+  const positionals: string[] = []
+  let quiet = false
+  let verbose = false
+
+  for (let index = 0; index < argv.length; index++) {
+    const arg = argv[index]
+    const [flag, inlineValue] = arg.startsWith('--')
+      ? splitInlineValue(arg)
+      : [arg, undefined]
+
+    if (booleanFlags[flag]) {
+      if (inlineValue !== undefined) {
+        throw new CliUsageError(`${flag} does not take a value`)
+      }
+      const name = booleanFlags[flag]
+      if (name === '--quiet') quiet = true
+      if (name === '--verbose') verbose = true
+      continue
+    }
+
+    if (valueFlags[flag]) {
+      const value = inlineValue ?? argv[++index]
+      if (value === undefined || (inlineValue === undefined && value.startsWith('-'))) {
+        throw new CliUsageError(`${flag} needs a value`)
+      }
+      applyValueFlag(options, valueFlags[flag], value)
+      continue
+    }
+
+    if (arg.startsWith('-') && arg !== '-') {
+      throw new CliUsageError(`Unknown option: ${arg}`)
+    }
+    positionals.push(arg)
+  }
+
+  if (quiet && verbose) {
+    throw new CliUsageError('--quiet and --verbose cannot be combined')
+  }
+  options.verbosity = quiet ? 'quiet' : verbose ? 'verbose' : 'normal'
+
+  if (options.layout === 'per-file' && options.target !== 'playwright') {
+    throw new CliUsageError(
+      `--layout per-file is only available for the playwright target, not ${options.target}`
+    )
+  }
+
+  if (positionals.length > 0 && isCommand(positionals[0])) {
+    options.command = positionals.shift() as Command
+  }
+  if (positionals.length > 1) {
+    throw new CliUsageError(
+      `Unexpected argument: ${positionals[1]} (one project directory is scanned at a time)`
+    )
+  }
+  if (positionals.length === 1) options.projectPath = positionals[0]
+
+  return options
+}
+
+function isCommand(value: string): value is Command {
+  return (commands as readonly string[]).includes(value)
+}
+
+function splitInlineValue(arg: string): [string, string | undefined] {
+  const equals = arg.indexOf('=')
+  return equals === -1
+    ? [arg, undefined]
+    : [arg.slice(0, equals), arg.slice(equals + 1)]
+}
+
+function applyValueFlag(options: CliOptions, flag: string, value: string) {
+  switch (flag) {
+    case '--out-dir':
+      options.outDir = value
+      break
+    case '--include':
+      options.include.push(value)
+      break
+    case '--exclude':
+      options.exclude.push(value)
+      break
+    case '--format': {
+      const formats = splitList(value)
+      const unknown = formats.filter(
+        (format) => !(outputFormats as readonly string[]).includes(format)
+      )
+      if (unknown.length > 0) {
+        throw new CliUsageError(
+          `Unknown format: ${unknown.join(', ')} (expected ${outputFormats.join(', ')})`
+        )
+      }
+      options.formats = formats as OutputFormat[]
+      break
+    }
+    case '--target':
+      if (!(targets as readonly string[]).includes(value)) {
+        throw new CliUsageError(
+          `Unknown target: ${value} (expected ${targets.join(', ')})`
+        )
+      }
+      options.target = value as Target
+      break
+    case '--layout':
+      if (!(layouts as readonly string[]).includes(value)) {
+        throw new CliUsageError(
+          `Unknown layout: ${value} (expected ${layouts.join(' or ')})`
+        )
+      }
+      options.layout = value as Layout
+      break
+    case '--robustness':
+      if (!['all', 'robust', 'fragile'].includes(value)) {
+        throw new CliUsageError(
+          `Unknown robustness filter: ${value} (expected all, robust or fragile)`
+        )
+      }
+      options.robustness = value as RobustnessFilter
+      break
+    case '--locale':
+      options.locale = value
+      break
+    case '--config':
+      options.configFile = value
+      break
+    case '--max-fragile':
+      options.maxFragile = parseNumber(flag, value, Number.MAX_SAFE_INTEGER)
+      break
+    case '--min-robustness':
+      options.minRobustness = parseNumber(flag, value, 100)
+      break
+  }
+}
+
+function splitList(value: string): string[] {
+  return value
+    .split(',')
+    .map((item) => item.trim())
+    .filter(Boolean)
+}
+
+function parseNumber(flag: string, value: string, max: number): number {
+  const number = Number(value)
+  if (!Number.isInteger(number) || number < 0 || number > max) {
+    throw new CliUsageError(
+      `${flag} needs a whole number${max === 100 ? ' from 0 to 100' : ''}, got ${value}`
+    )
+  }
+  return number
+}
@@ -0,0 +1,160 @@
+/**
+ * How a component library renders one of its components: the element that
+ * receives the attributes passed to it, the ARIA role of the control and
+ * which locator attributes reach that element
+ */
+export interface ComponentMapping {
+  element: string;
+  role?: string;
+  forwards?: string[]; // Locator attributes that reach `element`; all when omitted
+  teleports?: string; // Where the component renders its content, e.g. 'body'
+}
+
+/**
+ * A component library whose components render predictable DOM, keyed by
+ * kebab-case tag (`v-btn`, `el-input`, `input-text` for PrimeVue's `InputText`)
+ */
+export interface ComponentLibraryPreset {
+  name: string;
+  components: Record<string, ComponentMapping>;
+}
+
+const vuetifyPreset: ComponentLibraryPreset = {
+  name: 'vuetify',
+  components: {
+    'v-btn': { element: 'button', role: 'button' },
+    'v-text-field': { element: 'input', role: 'textbox' },
+    'v-textarea': { element: 'textarea', role: 'textbox' },
+    'v-select': { element: 'input', role: 'combobox' },
+    'v-autocomplete': { element: 'input', role: 'combobox' },
+    'v-combobox': { element: 'input', role: 'combobox' },
+    'v-checkbox': { element: 'input', role: 'checkbox' },
+    'v-radio': { element: 'input', role: 'radio' },
+    'v-switch': { element: 'input', role: 'switch' },
+    'v-slider': { element: 'div', role: 'slider' },
+    'v-tab': { element: 'button', role: 'tab' },
+    'v-dialog': { element: 'div', role: 'dialog', teleports: 'body' },
+    'v-menu': { element: 'div', role: 'menu', teleports: 'body' },
+    'v-snackbar': { element: 'div', role: 'status', teleports: 'body' },
+    'v-alert': { element: 'div', role: 'alert' },
+    'v-form': { element: 'form' },
+    'v-card': { element: 'div' },
+    'v-list': { element: 'div', role: 'listbox' },
+    'v-list-item': { element: 'div', role: 'option' },
+    'v-table': { element: 'table' },
+    'v-data-table': { element: 'table' }
+  }
+}
+
+const elementPlusPreset: ComponentLibraryPreset = {
+  name: 'element-plus',
+  components: {
+    'el-button': { element: 'button', role: 'button' },
+    'el-input': { element: 'input', role: 'textbox' },
+    'el-input-number': { element: 'input', role: 'spinbutton' },
+    'el-select': { element: 'input', role: 'combobox' },
+    'el-checkbox': { element: 'input', role: 'checkbox' },
+    'el-radio': { element: 'input', role: 'radio' },
+    'el-switch': { element: 'input', role: 'switch' },
+    'el-link': { element: 'a', role: 'link' },
+    'el-dialog': { element: 'div', role: 'dialog' },
+    'el-alert': { element: 'div', role: 'alert' },
+    'el-form': { element: 'form' },
+    'el-table': { element: 'div', role: 'table' },
+    'el-tabs': { element: 'div', role: 'tablist' },
+    'el-form-item': { element: 'div' }
+  }
+}
+
+const quasarPreset: ComponentLibraryPreset = {
+  name: 'quasar',
+  components: {
+    'q-btn': { element: 'button', role: 'button' },
+    'q-input': { element: 'input', role: 'textbox' },
+    'q-select': { element: 'div', role: 'combobox' },
+    'q-checkbox': { element: 'div', role: 'checkbox' },
+    'q-radio': { element: 'div', role: 'radio' },
+    'q-toggle': { element: 'div', role: 'switch' },
+    'q-slider': { element: 'div', role: 'slider' },
+    'q-tab': { element: 'div', role: 'tab' },
+    'q-tabs': { element: 'div', role: 'tablist' },
+    'q-dialog': { element: 'div', role: 'dialog', teleports: 'body' },
+    'q-menu': { element: 'div', role: 'menu', teleports: 'body' },
+    'q-banner': { element: 'div', role: 'alert' },
+    'q-form': { element: 'form' },
+    'q-card': { element: 'div' },
+    'q-list': { element: 'div', role: 'list' },
+    'q-item': { element: 'div', role: 'listitem' },
+    'q-table': { element: 'div' }
+  }
+}
+
+const primeVuePreset: ComponentLibraryPreset = {
+  name: 'primevue',
+  components: {
+    button: { element: 'button', role: 'button' },
+    'input-text': { element: 'input', role: 'textbox' },
+    'input-number': { element: 'input', role: 'spinbutton' },
+    password: { element: 'input', role: 'textbox' },
+    textarea: { element: 'textarea', role: 'textbox' },
+    dropdown: { element: 'div', role: 'combobox' },
+    select: { element: 'div', role: 'combobox' },
+    checkbox: { element: 'div', role: 'checkbox' },
+    'radio-button': { element: 'div', role: 'radio' },
+    'toggle-switch': { element: 'div', role: 'switch' },
+    'input-switch': { element: 'div', role: 'switch' },
+    dialog: { element: 'div', role: 'dialog', teleports: 'body' },
+    message: { element: 'div', role: 'alert' },
+    'data-table': { element: 'div' },
+    'tab-view': { element: 'div', role: 'tablist' }
+  }
+}
+
+const componentLibraryPresets = new Map<string, ComponentLibraryPreset>()
+
+/**
+ * Register a component library preset. A later preset mapping the same tag
+ * replaces the earlier mapping
+ */
+export function registerComponentLibraryPreset(
+  preset: ComponentLibraryPreset
+): void {
+  componentLibraryPresets.set(preset.name, preset)
+}
+
+/**
+ * Mapping for a component tag in any registered preset, e.g. `VBtn` or `v-btn`
+ */
+export function getComponentMapping(
+  tag: string
+): { library: string; mapping: ComponentMapping } | undefined {
+  const name = toKebabCase(tag)
+  let found: { library: string; mapping: ComponentMapping } | undefined
+  for (const preset of componentLibraryPresets.values()) {
+    const mapping = preset.components[name]
+    if (mapping) found = { library: preset.name, mapping }
+  }
+  return found
+}
+
+/**
+ * Whether a locator attribute passed to the component reaches its element
+ */
+export function forwardsAttribute(
+  mapping: ComponentMapping,
+  attribute: string
+): boolean {
+  return !mapping.forwards || mapping.forwards.includes(attribute)
+}
+
+function toKebabCase(tag: string): string {
+  return tag
+    .replace(/([a-z0-9])([A-Z])/g, '$1-$2')
+    .replace(/([A-Z])([A-Z][a-z])/g, '$1-$2')
+    .toLowerCase()
+}
+
+registerComponentLibraryPreset(vuetifyPreset)
+registerComponentLibraryPreset(elementPlusPreset)
+registerComponentLibraryPreset(quasarPreset)
+registerComponentLibraryPreset(primeVuePreset)
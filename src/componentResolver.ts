@@ -0,0 +1,392 @@
+import fs from 'fs-extra'
+import path from 'path'
+import ts from 'typescript'
+import { parse as parseSfc } from '@vue/compiler-sfc'
+import { parseTemplate, type TemplateElement } from './templateAst'
+import { getTemplatePreprocessor } from './templatePreprocessors'
+import {
+  resolveImportedComponentFile,
+  resolveModuleSpecifier
+} from './constantResolver'
+
+/**
+ * Where a component's fall-through attributes (`$attrs`) end up rendered
+ */
+export interface FallthroughTarget {
+  tag: string;
+  via: string[]; // Components the attributes pass through, outermost first
+  line: number;
+  column: number;
+}
+
+/**
+ * A custom component resolved to its SFC, with how it treats attributes
+ * that are not declared as props
+ */
+export interface ResolvedComponent {
+  name: string;
+  file: string; // Relative to the scanned project
+  props: string[]; // Declared props, camelCased
+  inheritAttrs: boolean;
+  target?: FallthroughTarget;
+  dropReason?: string; // Why fall-through attributes are not rendered
+}
+
+let projectRoot = process.cwd()
+const globalComponents: Map<string, string> = new Map() // PascalCase name → file
+const analysisCache: Map<string, ResolvedComponent | null> = new Map()
+
+/**
+ * Start a fresh resolution run, collecting global registrations such as
+ * `app.component('BaseButton', BaseButton)` from the given script files
+ */
+export function resetComponentResolver(
+  baseDir: string,
+  scriptFiles: string[]
+): void {
+  projectRoot = baseDir
+  globalComponents.clear()
+  analysisCache.clear()
+
+  for (const file of scriptFiles) {
+    collectGlobalRegistrations(file)
+  }
+}
+
+/**
+ * Resolve a component tag used in `fromFile` to its `.vue` source through
+ * the file's `components` option, its imports and global registrations
+ */
+export function resolveComponent(
+  tag: string,
+  fromFile: string
+): ResolvedComponent | undefined {
+  const file = findComponentFile(tag, toAbsolute(fromFile))
+  return file ? analyzeComponent(file, new Set()) : undefined
+}
+
+/**
+ * Whether an attribute passed to the component is consumed as a prop
+ * rather than falling through to the rendered element
+ */
+export function isDeclaredProp(
+  component: ResolvedComponent,
+  attribute: string
+): boolean {
+  return component.props.includes(camelize(attribute))
+}
+
+function toAbsolute(file: string): string {
+  return path.isAbsolute(file) ? file : path.resolve(projectRoot, file)
+}
+
+function toRelative(file: string): string {
+  return path.relative(projectRoot, file).replace(/\\/g, '/')
+}
+
+function camelize(name: string): string {
+  return name.replace(/-(\w)/g, (_, letter: string) => letter.toUpperCase())
+}
+
+function toPascalCase(name: string): string {
+  const camel = camelize(name)
+  return camel.charAt(0).toUpperCase() + camel.slice(1)
+}
+
+function findComponentFile(tag: string, fromFile: string): string | undefined {
+  const name = toPascalCase(tag)
+
+  // Options API: components: { 'orders-card': OrdersCard }
+  const localName = getLocalRegistrations(fromFile).get(name) || name
+  return (
+    resolveImportedComponentFile(fromFile, localName) ||
+    globalComponents.get(name)
+  )
+}
+
+function readScript(file: string): string {
+  if (!fs.existsSync(file)) return ''
+  const content = fs.readFileSync(file, 'utf-8')
+  if (!file.endsWith('.vue')) return content
+
+  const { descriptor } = parseSfc(content, { filename: file })
+  return [descriptor.script?.content, descriptor.scriptSetup?.content]
+    .filter(Boolean)
+    .join('\n')
+}
+
+function parseScript(file: string): ts.SourceFile {
+  return ts.createSourceFile(
+    file,
+    readScript(file),
+    ts.ScriptTarget.Latest,
+    true,
+    /\.(tsx|jsx)$/.test(file) ? ts.ScriptKind.TSX : ts.ScriptKind.TS
+  )
+}
+
+function getPropertyName(name: ts.PropertyName): string | undefined {
+  return ts.isIdentifier(name) || ts.isStringLiteral(name)
+    ? name.text
+    : undefined
+}
+
+/**
+ * Local `components: { ... }` registrations, PascalCase name → binding
+ */
+function getLocalRegistrations(file: string): Map<string, string> {
+  const registrations = new Map<string, string>()
+
+  const visit = (node: ts.Node): void => {
+    if (
+      ts.isPropertyAssignment(node) &&
+      getPropertyName(node.name) === 'components' &&
+      ts.isObjectLiteralExpression(node.initializer)
+    ) {
+      for (const property of node.initializer.properties) {
+        if (ts.isShorthandPropertyAssignment(property)) {
+          registrations.set(toPascalCase(property.name.text), property.name.text)
+        } else if (
+          ts.isPropertyAssignment(property) &&
+          ts.isIdentifier(property.initializer)
+        ) {
+          const name = getPropertyName(property.name)
+          if (name) {
+            registrations.set(toPascalCase(name), property.initializer.text)
+          }
+        }
+      }
+    }
+    ts.forEachChild(node, visit)
+  }
+
+  visit(parseScript(file))
+  return registrations
+}
+
+/**
+ * `app.component('Name', Component)` and `Vue.component('Name', Component)`,
+ * including `defineAsyncComponent(() => import('./Name.vue'))`
+ */
+function collectGlobalRegistrations(file: string): void {
+  const sourceFile = parseScript(file)
+
+  const visit = (node: ts.Node): void => {
+    if (
+      ts.isCallExpression(node) &&
+      ts.isPropertyAccessExpression(node.expression) &&
+      node.expression.name.text === 'component' &&
+      node.arguments.length === 2 &&
+      ts.isStringLiteral(node.arguments[0])
+    ) {
+      const componentFile = resolveComponentExpression(file, node.arguments[1])
+      if (componentFile) {
+        globalComponents.set(toPascalCase(node.arguments[0].text), componentFile)
+      }
+    }
+    ts.forEachChild(node, visit)
+  }
+
+  visit(sourceFile)
+}
+
+/**
+ * The `.vue` file behind a component expression in `file`: an imported
+ * binding, or a lazy `() => import('./Name.vue')` / `defineAsyncComponent(...)`.
+ * A lazy import that does not lead to a `.vue` file is passed to `onUnresolved`
+ */
+export function resolveComponentExpression(
+  file: string,
+  node: ts.Expression,
+  onUnresolved?: (specifier: string) => void
+): string | undefined {
+  if (ts.isIdentifier(node)) {
+    return resolveImportedComponentFile(file, node.text)
+  }
+
+  // Async components: the first dynamic import()
+  let specifier: string | undefined
+  const visit = (child: ts.Node): void => {
+    if (
+      !specifier &&
+      ts.isCallExpression(child) &&
+      child.expression.kind === ts.SyntaxKind.ImportKeyword &&
+      child.arguments[0] &&
+      ts.isStringLiteral(child.arguments[0])
+    ) {
+      specifier = child.arguments[0].text
+    }
+    ts.forEachChild(child, visit)
+  }
+  visit(node)
+
+  if (!specifier) return undefined
+  const resolved = resolveModuleSpecifier(file, specifier)
+  if (resolved?.endsWith('.vue')) return resolved
+  onUnresolved?.(specifier)
+  return undefined
+}
+
+/**
+ * Props, `inheritAttrs` and the element that renders `$attrs` for one SFC.
+ * A root that is itself a component is followed to its own target
+ */
+function analyzeComponent(
+  file: string,
+  seen: Set<string>
+): ResolvedComponent | undefined {
+  if (analysisCache.has(file)) return analysisCache.get(file) || undefined
+  if (seen.has(file)) return undefined
+  seen.add(file)
+
+  let component: ResolvedComponent | null = null
+  try {
+    component = buildComponent(file, seen)
+  } catch {
+    component = null
+  }
+
+  analysisCache.set(file, component)
+  return component || undefined
+}
+
+function buildComponent(
+  file: string,
+  seen: Set<string>
+): ResolvedComponent | null {
+  const { descriptor } = parseSfc(fs.readFileSync(file, 'utf-8'), {
+    filename: file
+  })
+  const template = descriptor.template
+  if (!template) return null
+
+  let content = template.content
+  let preprocessedSource: string | undefined
+  if (template.lang && template.lang !== 'html') {
+    const preprocessor = getTemplatePreprocessor(template.lang)
+    if (!preprocessor) return null
+    content = preprocessor.compile(template.content, file)
+    preprocessedSource = template.content
+  }
+
+  const parsed = parseTemplate(content, template.loc.start, preprocessedSource)
+  const script = parseScript(file)
+  const inheritAttrs = !hasInheritAttrsFalse(script)
+
+  const component: ResolvedComponent = {
+    name: path.basename(file, '.vue'),
+    file: toRelative(file),
+    props: collectProps(script),
+    inheritAttrs
+  }
+
+  // v-if / v-else-if / v-else roots still render a single root
+  const roots = parsed.roots.filter(
+    (root) =>
+      !root.directives.includes('v-else') &&
+      !root.directives.includes('v-else-if')
+  )
+
+  // An explicit v-bind="$attrs" wins; otherwise a single root inherits them
+  const attrsElement = parsed.elements.find(
+    (element) => element.directiveExpressions['v-bind']?.trim() === '$attrs'
+  )
+  const targetElement =
+    attrsElement || (inheritAttrs && roots.length === 1 ? roots[0] : undefined)
+
+  if (!targetElement) {
+    component.dropReason = inheritAttrs
+      ? `${component.name} renders ${roots.length} root elements and none binds $attrs`
+      : `${component.name} sets inheritAttrs: false and no element binds $attrs`
+    return component
+  }
+
+  component.target = followTarget(targetElement, file, component.name, seen)
+  return component
+}
+
+function followTarget(
+  element: TemplateElement,
+  file: string,
+  componentName: string,
+  seen: Set<string>
+): FallthroughTarget {
+  const target: FallthroughTarget = {
+    tag: element.tag,
+    via: [componentName],
+    line: element.loc.start.line,
+    column: element.loc.start.column
+  }
+
+  // The target is itself a component: the attributes fall through again
+  if (!/^[A-Z]/.test(element.tag) && !element.tag.includes('-')) return target
+
+  const nestedFile = findComponentFile(element.tag, file)
+  const nested = nestedFile ? analyzeComponent(nestedFile, seen) : undefined
+  if (!nested?.target) return target
+
+  return { ...nested.target, via: [componentName, ...nested.target.via] }
+}
+
+function hasInheritAttrsFalse(sourceFile: ts.SourceFile): boolean {
+  let found = false
+  const visit = (node: ts.Node): void => {
+    if (
+      ts.isPropertyAssignment(node) &&
+      getPropertyName(node.name) === 'inheritAttrs' &&
+      node.initializer.kind === ts.SyntaxKind.FalseKeyword
+    ) {
+      found = true
+    }
+    if (!found) ts.forEachChild(node, visit)
+  }
+  visit(sourceFile)
+  return found
+}
+
+/**
+ * Props declared with `defineProps(...)`, `defineProps<{ ... }>()` or the
+ * `props` option, as object keys or an array of names
+ */
+function collectProps(sourceFile: ts.SourceFile): string[] {
+  const props = new Set<string>()
+
+  const addFromDeclaration = (node: ts.Node | undefined): void => {
+    if (!node) return
+    if (ts.isObjectLiteralExpression(node)) {
+      for (const property of node.properties) {
+        const name = property.name && getPropertyName(property.name)
+        if (name) props.add(camelize(name))
+      }
+    } else if (ts.isArrayLiteralExpression(node)) {
+      for (const element of node.elements) {
+        if (ts.isStringLiteral(element)) props.add(camelize(element.text))
+      }
+    } else if (ts.isTypeLiteralNode(node)) {
+      for (const member of node.members) {
+        const name = member.name && getPropertyName(member.name)
+        if (name) props.add(camelize(name))
+      }
+    }
+  }
+
+  const visit = (node: ts.Node): void => {
+    if (
+      ts.isCallExpression(node) &&
+      ts.isIdentifier(node.expression) &&
+      node.expression.text === 'defineProps'
+    ) {
+      addFromDeclaration(node.arguments[0])
+      addFromDeclaration(node.typeArguments?.[0])
+    } else if (
+      ts.isPropertyAssignment(node) &&
+      getPropertyName(node.name) === 'props'
+    ) {
+      addFromDeclaration(node.initializer)
+    }
+    ts.forEachChild(node, visit)
+  }
+
+  visit(sourceFile)
+  return [...props]
+}
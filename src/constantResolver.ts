@@ -0,0 +1,679 @@
+import fs from 'fs-extra'
+import path from 'path'
+import ts from 'typescript'
+import { parse as parseSfc } from '@vue/compiler-sfc'
+
+/**
+ * A constant value resolved from source: a string leaf or an object of
+ * nested values (object literals, `as const` objects, enums and namespaces)
+ */
+type ConstantValue =
+  | { kind: 'string'; value: string; file: string }
+  | { kind: 'object'; members: Map<string, ConstantValue>; file: string }
+
+interface ImportBinding {
+  from: string;
+  imported: string; // 'default', '*' for namespace imports, or the export name
+}
+
+interface ModuleScope {
+  file: string;
+  sourceFile: ts.SourceFile;
+  declarations: Map<string, ts.Expression | ts.EnumDeclaration>;
+  imports: Map<string, ImportBinding>;
+  exports: Map<string, string>; // exported name → local name
+  reExports: Array<{ from: string; imported: string; exported: string }>;
+  starExports: string[];
+  defaultExport?: ts.Expression;
+}
+
+/**
+ * A constant reference resolved to its literal value
+ */
+export interface ResolvedConstant {
+  name: string;
+  value: string;
+  file: string; // Defining file, relative to the scanned project
+}
+
+// Extensions tried, in order, for import specifiers without one
+const resolvableExtensions = ['.ts', '.tsx', '.js', '.jsx', '.vue']
+
+let projectRoot = process.cwd()
+const moduleScopes: Map<string, ModuleScope | null> = new Map()
+const valueCache: Map<ts.Node, ConstantValue | null> = new Map()
+
+/**
+ * Start a fresh resolution run for the project at `baseDir`
+ */
+export function resetConstantResolver(baseDir: string): void {
+  projectRoot = baseDir
+  moduleScopes.clear()
+  valueCache.clear()
+}
+
+/**
+ * Resolve a reference such as `SUBMIT_LABEL`, `TEST_IDS.login.submit`,
+ * `TestId.Submit` or `TEST_IDS['login'].submit`, as seen from the module
+ * scope of `file` (relative to the project, or absolute)
+ */
+export function resolveConstantExpression(
+  expression: string,
+  file: string
+): ResolvedConstant | undefined {
+  const scope = loadModuleScope(toAbsolute(file))
+  if (!scope) return undefined
+
+  const reference = parseReference(expression)
+  if (!reference) return undefined
+
+  const value = resolvePath(scope, reference)
+  if (!value || value.kind !== 'string') return undefined
+
+  return {
+    name: expression.trim(),
+    value: value.value,
+    file: toRelative(value.file)
+  }
+}
+
+/**
+ * Every string constant a module declares at top level, flattened to
+ * dotted paths (`TEST_IDS.login.submit`)
+ */
+export function listModuleConstants(file: string): ResolvedConstant[] {
+  const scope = loadModuleScope(toAbsolute(file))
+  if (!scope) return []
+
+  const constants: ResolvedConstant[] = []
+  const flatten = (name: string, value: ConstantValue) => {
+    if (value.kind === 'string') {
+      constants.push({ name, value: value.value, file: toRelative(value.file) })
+      return
+    }
+    value.members.forEach((member, key) => flatten(`${name}.${key}`, member))
+  }
+
+  for (const [name, declaration] of scope.declarations) {
+    const value = evaluateDeclaration(scope, declaration, new Set())
+    // Only report values defined here, not ones pulled in through imports
+    if (value && value.file === scope.file) flatten(name, value)
+  }
+
+  return constants
+}
+
+/**
+ * String leaves of one export of a module, flattened to dotted paths below
+ * it: `login.submit` for `export default { login: { submit: 'Sign in' } }`
+ */
+export function listExportedConstants(
+  file: string,
+  exportName: string
+): ResolvedConstant[] {
+  const scope = loadModuleScope(toAbsolute(file))
+  const value = scope && lookupExport(scope, exportName, new Set())
+  if (!value) return []
+
+  const constants: ResolvedConstant[] = []
+  const flatten = (name: string, member: ConstantValue) => {
+    if (member.kind === 'string') {
+      constants.push({ name, value: member.value, file: toRelative(member.file) })
+      return
+    }
+    member.members.forEach((child, key) =>
+      flatten(name ? `${name}.${key}` : key, child)
+    )
+  }
+  flatten('', value)
+
+  return constants
+}
+
+/**
+ * The `.vue` file behind a module-scope binding, following imports and
+ * barrel re-exports, e.g. `import { BaseButton } from '@/components'`
+ */
+export function resolveImportedComponentFile(
+  file: string,
+  localName: string
+): string | undefined {
+  const scope = loadModuleScope(toAbsolute(file))
+  if (!scope) return undefined
+  return findComponentFile(scope, localName, 'local', new Set())
+}
+
+/**
+ * The file a module-scope binding is imported from, and the name it is
+ * exported under there
+ */
+export function resolveImportBinding(
+  file: string,
+  localName: string
+): { file: string; imported: string } | undefined {
+  const scope = loadModuleScope(toAbsolute(file))
+  const binding = scope?.imports.get(localName)
+  if (!scope || !binding) return undefined
+
+  const target = resolveModuleFile(scope.file, binding.from)
+  return target ? { file: target, imported: binding.imported } : undefined
+}
+
+/**
+ * The file an import specifier in `file` refers to, with the same `@/` alias
+ * and extension probing as constant imports
+ */
+export function resolveModuleSpecifier(
+  file: string,
+  specifier: string
+): string | undefined {
+  return resolveModuleFile(toAbsolute(file), specifier)
+}
+
+function findComponentFile(
+  scope: ModuleScope,
+  name: string,
+  kind: 'local' | 'export',
+  seen: Set<string>
+): string | undefined {
+  const key = `${scope.file}#${kind}:${name}`
+  if (seen.has(key)) return undefined
+  seen.add(key)
+
+  if (kind === 'export') {
+    if (name === 'default' && scope.file.endsWith('.vue')) return scope.file
+
+    const reExport = scope.reExports.find((entry) => entry.exported === name)
+    if (reExport) {
+      const target = resolveImport(scope, reExport.from)
+      return target
+        ? findComponentFile(target, reExport.imported, 'export', seen)
+        : undefined
+    }
+
+    const local = scope.exports.get(name)
+    return local ? findComponentFile(scope, local, 'local', seen) : undefined
+  }
+
+  const binding = scope.imports.get(name)
+  if (!binding || binding.imported === '*') return undefined
+
+  const target = resolveImport(scope, binding.from)
+  return target
+    ? findComponentFile(target, binding.imported, 'export', seen)
+    : undefined
+}
+
+function toAbsolute(file: string): string {
+  return path.isAbsolute(file) ? file : path.resolve(projectRoot, file)
+}
+
+function toRelative(file: string): string {
+  return path.relative(projectRoot, file).replace(/\\/g, '/')
+}
+
+/**
+ * Split `A.b['c']` into ['A', 'b', 'c']; returns undefined for anything
+ * that is not a plain reference
+ */
+function parseReference(expression: string): string[] | undefined {
+  const sourceFile = ts.createSourceFile(
+    'reference.ts',
+    `(${expression})`,
+    ts.ScriptTarget.Latest,
+    true
+  )
+  const statement = sourceFile.statements[0]
+  if (!statement || !ts.isExpressionStatement(statement)) return undefined
+
+  const segments: string[] = []
+  let node: ts.Expression = statement.expression
+  while (ts.isParenthesizedExpression(node)) node = node.expression
+
+  for (;;) {
+    if (ts.isPropertyAccessExpression(node)) {
+      segments.unshift(node.name.text)
+      node = node.expression
+    } else if (
+      ts.isElementAccessExpression(node) &&
+      (ts.isStringLiteral(node.argumentExpression) ||
+        ts.isNumericLiteral(node.argumentExpression))
+    ) {
+      segments.unshift(node.argumentExpression.text)
+      node = node.expression
+    } else if (ts.isNonNullExpression(node)) {
+      node = node.expression
+    } else {
+      break
+    }
+  }
+
+  if (!ts.isIdentifier(node)) return undefined
+  segments.unshift(node.text)
+  return segments
+}
+
+function resolvePath(
+  scope: ModuleScope,
+  reference: string[]
+): ConstantValue | undefined {
+  let value = lookupBinding(scope, reference[0], new Set())
+  for (const segment of reference.slice(1)) {
+    if (!value || value.kind !== 'object') return undefined
+    value = value.members.get(segment)
+  }
+  return value
+}
+
+/**
+ * Load the top-level declarations, imports and exports of a module.
+ * For SFCs this is the combined `<script>` and `<script setup>` content
+ */
+function loadModuleScope(file: string): ModuleScope | undefined {
+  if (moduleScopes.has(file)) return moduleScopes.get(file) || undefined
+
+  let scope: ModuleScope | null = null
+  try {
+    const source = readScriptSource(file)
+    if (source !== undefined) scope = buildModuleScope(file, source)
+  } catch {
+    scope = null
+  }
+
+  moduleScopes.set(file, scope)
+  return scope || undefined
+}
+
+function readScriptSource(file: string): string | undefined {
+  if (!fs.existsSync(file)) return undefined
+  const content = fs.readFileSync(file, 'utf-8')
+  if (!file.endsWith('.vue')) return content
+
+  const { descriptor } = parseSfc(content, { filename: file })
+  return [descriptor.script?.content, descriptor.scriptSetup?.content]
+    .filter(Boolean)
+    .join('\n')
+}
+
+function buildModuleScope(file: string, source: string): ModuleScope {
+  const sourceFile = ts.createSourceFile(
+    file,
+    source,
+    ts.ScriptTarget.Latest,
+    true,
+    /\.(tsx|jsx)$/.test(file) ? ts.ScriptKind.TSX : ts.ScriptKind.TS
+  )
+  const scope: ModuleScope = {
+    file,
+    sourceFile,
+    declarations: new Map(),
+    imports: new Map(),
+    exports: new Map(),
+    reExports: [],
+    starExports: []
+  }
+
+  for (const statement of sourceFile.statements) {
+    collectStatement(scope, statement)
+  }
+
+  return scope
+}
+
+function hasExportModifier(node: ts.Node): boolean {
+  return (
+    ts.canHaveModifiers(node) &&
+    (ts.getModifiers(node) || []).some(
+      (modifier) => modifier.kind === ts.SyntaxKind.ExportKeyword
+    )
+  )
+}
+
+function collectStatement(scope: ModuleScope, statement: ts.Statement): void {
+  if (ts.isVariableStatement(statement)) {
+    // `let` and `var` bindings can be reassigned, so their initial value
+    // is not necessarily the one rendered
+    if (!(statement.declarationList.flags & ts.NodeFlags.Const)) return
+
+    const isExported = hasExportModifier(statement)
+    for (const declaration of statement.declarationList.declarations) {
+      if (!ts.isIdentifier(declaration.name) || !declaration.initializer) {
+        continue
+      }
+      scope.declarations.set(declaration.name.text, declaration.initializer)
+      if (isExported) {
+        scope.exports.set(declaration.name.text, declaration.name.text)
+      }
+    }
+  } else if (ts.isEnumDeclaration(statement)) {
+    scope.declarations.set(statement.name.text, statement)
+    if (hasExportModifier(statement)) {
+      scope.exports.set(statement.name.text, statement.name.text)
+    }
+  } else if (ts.isImportDeclaration(statement)) {
+    collectImport(scope, statement)
+  } else if (ts.isExportDeclaration(statement)) {
+    collectExport(scope, statement)
+  } else if (ts.isExportAssignment(statement) && !statement.isExportEquals) {
+    scope.defaultExport = statement.expression
+  }
+}
+
+function collectImport(
+  scope: ModuleScope,
+  statement: ts.ImportDeclaration
+): void {
+  const clause = statement.importClause
+  if (!clause || !ts.isStringLiteral(statement.moduleSpecifier)) return
+
+  const from = statement.moduleSpecifier.text
+  if (clause.name) {
+    scope.imports.set(clause.name.text, { from, imported: 'default' })
+  }
+
+  const bindings = clause.namedBindings
+  if (!bindings) return
+
+  if (ts.isNamespaceImport(bindings)) {
+    scope.imports.set(bindings.name.text, { from, imported: '*' })
+    return
+  }
+
+  for (const element of bindings.elements) {
+    scope.imports.set(element.name.text, {
+      from,
+      imported: (element.propertyName || element.name).text
+    })
+  }
+}
+
+function collectExport(
+  scope: ModuleScope,
+  statement: ts.ExportDeclaration
+): void {
+  const from =
+    statement.moduleSpecifier && ts.isStringLiteral(statement.moduleSpecifier)
+      ? statement.moduleSpecifier.text
+      : undefined
+
+  if (!statement.exportClause) {
+    if (from) scope.starExports.push(from)
+    return
+  }
+
+  if (!ts.isNamedExports(statement.exportClause)) return
+
+  for (const element of statement.exportClause.elements) {
+    const local = (element.propertyName || element.name).text
+    if (from) {
+      scope.reExports.push({ from, imported: local, exported: element.name.text })
+    } else {
+      scope.exports.set(element.name.text, local)
+    }
+  }
+}
+
+/**
+ * Resolve an import specifier to a file: relative paths and the
+ * conventional `@/` alias for the project's `src` directory
+ */
+function resolveModuleFile(fromFile: string, specifier: string): string | undefined {
+  let base: string
+  if (specifier.startsWith('.')) {
+    base = path.resolve(path.dirname(fromFile), specifier)
+  } else if (specifier.startsWith('@/')) {
+    base = path.resolve(projectRoot, 'src', specifier.slice(2))
+  } else {
+    return undefined
+  }
+
+  const candidates = [
+    base,
+    ...resolvableExtensions.map((extension) => `${base}${extension}`),
+    ...resolvableExtensions.map((extension) =>
+      path.join(base, `index${extension}`)
+    )
+  ]
+  return candidates.find(
+    (candidate) => fs.existsSync(candidate) && fs.statSync(candidate).isFile()
+  )
+}
+
+function lookupBinding(
+  scope: ModuleScope,
+  name: string,
+  seen: Set<string>
+): ConstantValue | undefined {
+  const declaration = scope.declarations.get(name)
+  if (declaration) return evaluateDeclaration(scope, declaration, seen)
+
+  const binding = scope.imports.get(name)
+  if (!binding) return undefined
+
+  const target = resolveImport(scope, binding.from)
+  if (!target) return undefined
+
+  return binding.imported === '*'
+    ? namespaceValue(target, seen)
+    : lookupExport(target, binding.imported, seen)
+}
+
+function resolveImport(
+  scope: ModuleScope,
+  specifier: string
+): ModuleScope | undefined {
+  const file = resolveModuleFile(scope.file, specifier)
+  return file ? loadModuleScope(file) : undefined
+}
+
+function lookupExport(
+  scope: ModuleScope,
+  name: string,
+  seen: Set<string>
+): ConstantValue | undefined {
+  // Guard against circular re-exports
+  const key = `${scope.file}#${name}`
+  if (seen.has(key)) return undefined
+  const nextSeen = new Set(seen).add(key)
+
+  if (name === 'default') {
+    return scope.defaultExport
+      ? evaluate(scope, scope.defaultExport, nextSeen)
+      : undefined
+  }
+
+  const local = scope.exports.get(name)
+  if (local) return lookupBinding(scope, local, nextSeen)
+
+  const reExport = scope.reExports.find((entry) => entry.exported === name)
+  if (reExport) {
+    const target = resolveImport(scope, reExport.from)
+    return target ? lookupExport(target, reExport.imported, nextSeen) : undefined
+  }
+
+  for (const from of scope.starExports) {
+    const target = resolveImport(scope, from)
+    const value = target && lookupExport(target, name, nextSeen)
+    if (value) return value
+  }
+
+  return undefined
+}
+
+/**
+ * `import * as NS` — an object of every export that resolves to a constant
+ */
+function namespaceValue(
+  scope: ModuleScope,
+  seen: Set<string>
+): ConstantValue {
+  const members = new Map<string, ConstantValue>()
+  const names = [
+    ...scope.exports.keys(),
+    ...scope.reExports.map((entry) => entry.exported)
+  ]
+  for (const name of names) {
+    const value = lookupExport(scope, name, seen)
+    if (value) members.set(name, value)
+  }
+  return { kind: 'object', members, file: scope.file }
+}
+
+function evaluateDeclaration(
+  scope: ModuleScope,
+  declaration: ts.Expression | ts.EnumDeclaration,
+  seen: Set<string>
+): ConstantValue | undefined {
+  if (!ts.isEnumDeclaration(declaration)) {
+    return evaluate(scope, declaration, seen)
+  }
+
+  // Only string-valued members matter for locators
+  const members = new Map<string, ConstantValue>()
+  for (const member of declaration.members) {
+    if (!member.initializer) continue
+    const value = evaluate(scope, member.initializer, seen)
+    if (value) members.set(member.name.getText(scope.sourceFile), value)
+  }
+  return { kind: 'object', members, file: scope.file }
+}
+
+/**
+ * Statically evaluate an initializer to a constant value, when possible
+ */
+function evaluate(
+  scope: ModuleScope,
+  node: ts.Expression,
+  seen: Set<string>
+): ConstantValue | undefined {
+  if (valueCache.has(node)) return valueCache.get(node) || undefined
+
+  // Mark in progress so self-references terminate
+  valueCache.set(node, null)
+  const value = evaluateNode(scope, node, seen)
+  valueCache.set(node, value || null)
+  return value
+}
+
+function evaluateNode(
+  scope: ModuleScope,
+  node: ts.Expression,
+  seen: Set<string>
+): ConstantValue | undefined {
+  if (
+    ts.isParenthesizedExpression(node) ||
+    ts.isAsExpression(node) ||
+    ts.isSatisfiesExpression(node) ||
+    ts.isTypeAssertionExpression(node) ||
+    ts.isNonNullExpression(node)
+  ) {
+    return evaluate(scope, node.expression, seen)
+  }
+
+  if (
+    ts.isStringLiteral(node) ||
+    ts.isNoSubstitutionTemplateLiteral(node) ||
+    ts.isNumericLiteral(node)
+  ) {
+    return { kind: 'string', value: node.text, file: scope.file }
+  }
+
+  if (ts.isTemplateExpression(node)) {
+    let value = node.head.text
+    for (const span of node.templateSpans) {
+      const part = evaluate(scope, span.expression, seen)
+      if (!part || part.kind !== 'string') return undefined
+      value += part.value + span.literal.text
+    }
+    return { kind: 'string', value, file: scope.file }
+  }
+
+  if (
+    ts.isBinaryExpression(node) &&
+    node.operatorToken.kind === ts.SyntaxKind.PlusToken
+  ) {
+    const left = evaluate(scope, node.left, seen)
+    const right = evaluate(scope, node.right, seen)
+    if (left?.kind !== 'string' || right?.kind !== 'string') return undefined
+    return { kind: 'string', value: left.value + right.value, file: scope.file }
+  }
+
+  if (ts.isObjectLiteralExpression(node)) {
+    return evaluateObject(scope, node, seen)
+  }
+
+  if (ts.isIdentifier(node)) {
+    return lookupBinding(scope, node.text, seen)
+  }
+
+  if (ts.isPropertyAccessExpression(node)) {
+    const target = evaluate(scope, node.expression, seen)
+    return target?.kind === 'object'
+      ? target.members.get(node.name.text)
+      : undefined
+  }
+
+  if (
+    ts.isElementAccessExpression(node) &&
+    (ts.isStringLiteral(node.argumentExpression) ||
+      ts.isNumericLiteral(node.argumentExpression))
+  ) {
+    const target = evaluate(scope, node.expression, seen)
+    return target?.kind === 'object'
+      ? target.members.get(node.argumentExpression.text)
+      : undefined
+  }
+
+  return undefined
+}
+
+function evaluateObject(
+  scope: ModuleScope,
+  node: ts.ObjectLiteralExpression,
+  seen: Set<string>
+): ConstantValue {
+  const members = new Map<string, ConstantValue>()
+
+  for (const property of node.properties) {
+    if (ts.isSpreadAssignment(property)) {
+      const spread = evaluate(scope, property.expression, seen)
+      if (spread?.kind === 'object') {
+        spread.members.forEach((value, key) => members.set(key, value))
+      }
+      continue
+    }
+
+    if (ts.isShorthandPropertyAssignment(property)) {
+      const value = lookupBinding(scope, property.name.text, seen)
+      if (value) members.set(property.name.text, value)
+      continue
+    }
+
+    if (!ts.isPropertyAssignment(property)) continue
+
+    const name = getStaticPropertyName(property.name)
+    if (name === undefined) continue
+
+    const value = evaluate(scope, property.initializer, seen)
+    if (value) members.set(name, value)
+  }
+
+  return { kind: 'object', members, file: scope.file }
+}
+
+function getStaticPropertyName(name: ts.PropertyName): string | undefined {
+  if (
+    ts.isIdentifier(name) ||
+    ts.isStringLiteral(name) ||
+    ts.isNumericLiteral(name)
+  ) {
+    return name.text
+  }
+  if (
+    ts.isComputedPropertyName(name) &&
+    ts.isStringLiteral(name.expression)
+  ) {
+    return name.expression.text
+  }
+  return undefined
+}
@@ -1,64 +1,197 @@
-import { extractLocatorsFromVue } from './scanVueTemplates'
+import { extractLocatorsFromVue, formatLocation } from './scanVueTemplates'
+import { ConfigError, findGeneratorOverride } from './projectConfig'
+import {
+  createInventory,
+  inventorySchema,
+  inventorySchemaFile,
+  toPosix
+} from './inventory'
+import { createSarifLog } from './sarif'
+import {
+  addGeneratedFile,
+  createOutputManifest,
+  findStaleOutputs,
+  outputManifestFile,
+  readOutputManifest,
+  removeStaleOutputs
+} from './outputManifest'
+import type { ValueTemplate } from './valueTemplate'
+import {
+  CliUsageError,
+  exitCodes,
+  helpText,
+  parseCliArgs,
+  outputFiles,
+  type CliOptions,
+  type OutputFormat,
+  type WebDriverTarget
+} from './cli'
 import fs from 'fs-extra'
-import path from 'path'
-
-const vueProjectPath = process.argv[2] || './test-vue-src';
+import crypto from 'crypto'
+import path from 'path';
 
 (async () => {
+  let options: CliOptions
   try {
-    const absPath = path.resolve(vueProjectPath)
-    console.log(`🔍 Scanning for Vue and JS/TS files in: ${absPath}`)
-
-    const { groupedLocators, warnings, customComponentWarnings } =
-      await extractLocatorsFromVue(absPath)
-
-    console.log('\n📁 Files found and processed:')
-    Object.entries(groupedLocators).forEach(([file, locators]) => {
-      console.log(`   📄 ${file} - ${Object.keys(locators).length} locators`)
-      Object.entries(locators).forEach(([key, info]) => {
-        let status = info.robustness === 'robust' ? '✅' : '🔸'
-        let details = `${key}: ${info.type}="${info.rawValue}"`
-
-        // Add dynamic/conditional indicators
-        if (info.isDynamic && info.isConditional) {
-          details += ' [DYNAMIC+CONDITIONAL]'
-          status = '🔄'
-        } else if (info.isDynamic) {
-          details += ' [DYNAMIC]'
-          status = '🔄'
-        } else if (info.isConditional) {
-          details += ' [CONDITIONAL]'
-          status = '❓'
-        }
+    options = parseCliArgs(process.argv.slice(2))
+  } catch (error) {
+    if (!(error instanceof CliUsageError)) throw error
+    console.error(`❌ ${error.message}\nRun with --help for usage.`)
+    process.exit(exitCodes.usage)
+  }
 
-        // Add custom component indicator
-        if (info.customComponent) {
-          details += ' [CUSTOM COMPONENT]'
-        }
+  if (options.help) {
+    console.log(helpText)
+    return
+  }
+
+  const { command, verbosity } = options
+  // Command output; quiet runs only print failures and errors
+  const log = verbosity === 'quiet' ? () => {} : console.log
+
+  const absPath = path.resolve(options.projectPath)
+  if (!fs.existsSync(absPath) || !fs.statSync(absPath).isDirectory()) {
+    console.error(`❌ Project directory not found: ${absPath}`)
+    process.exit(exitCodes.usage)
+  }
+
+  try {
+    log(`🔍 Scanning for Vue and JS/TS files in: ${absPath}`)
+
+    const result = await extractLocatorsFromVue(absPath, {
+      locale: options.locale,
+      configFile: options.configFile,
+      include: options.include,
+      exclude: options.exclude,
+      log: verbosity === 'verbose' ? log : undefined
+    })
+    const {
+      groupedLocators,
+      warnings,
+      customComponentWarnings,
+      keyCollisions,
+      diagnostics,
+      routes,
+      i18n,
+      componentUsages,
+      config
+    } = result
+
+    if (config.file) log(`⚙️  Using config: ${config.file}`)
 
-        // Add parent context if relevant
-        if (info.parentContext) {
-          details += ` (${info.parentContext})`
+    // --robustness narrows every listing, report and generated file
+    if (options.robustness !== 'all') {
+      for (const [file, locators] of Object.entries(groupedLocators)) {
+        for (const [key, info] of Object.entries(locators)) {
+          if (info.robustness !== options.robustness) delete locators[key]
         }
+        if (Object.keys(locators).length === 0) delete groupedLocators[file]
+      }
+    }
+
+    // The locator listing is what scan prints; other commands show it when verbose
+    const listLocators = command === 'scan' || verbosity === 'verbose'
+    // Warnings, diagnostics and recommendations make up the report
+    const showReport = command === 'report' || verbosity === 'verbose'
+
+    // Nearest ancestor that controls whether or how often an element renders,
+    // the one its parentContext names
+    const getRenderingAncestor = (info: (typeof groupedLocators)[string][string]) =>
+      [...(info.ancestors ?? [])]
+        .reverse()
+        .find((ancestor) => Object.keys(ancestor.renderDirectives).length > 0)
+
+    if (listLocators) {
+      log('\n📁 Files found and processed:')
+      Object.entries(groupedLocators).forEach(([file, locators]) => {
+        log(`   📄 ${file} - ${Object.keys(locators).length} locators`)
+        Object.entries(locators).forEach(([key, info]) => {
+          let status = info.robustness === 'robust' ? '✅' : '🔸'
+          let details = `${key}: ${info.type}="${info.rawValue}"`
+
+          // Add dynamic/conditional indicators
+          if (info.isDynamic && info.isConditional) {
+            details += ' [DYNAMIC+CONDITIONAL]'
+            status = '🔄'
+          } else if (info.isDynamic) {
+            details += ' [DYNAMIC]'
+            status = '🔄'
+          } else if (info.isConditional) {
+            details += ' [CONDITIONAL]'
+            status = '❓'
+          }
+
+          // Add custom component indicator
+          if (info.customComponent) {
+            details += ' [CUSTOM COMPONENT]'
+          }
+          if (info.resolvedComponent) {
+            details += ` [VIA ${info.resolvedComponent.via.join(' → ')}]`
+          }
+
+          // Add the parameters of a templated value
+          if (info.valueTemplate) {
+            details += ` [PARAMETERISED: ${info.valueTemplate.params.join(', ')}]`
+          }
+
+          // Add the role and name getByRole can single the element out by
+          if (info.accessibility?.unique) {
+            details += ` [ROLE ${info.accessibility.role} "${info.accessibility.name}"]`
+          }
 
-        console.log(`      ${status} ${details}`)
+          // Add the label of a form control
+          if (info.label) {
+            details += ` [LABEL "${info.label.text}"]`
+          }
+
+          // Add the vue-i18n key a translated value came from
+          if (info.translation) {
+            details += ` [i18n: ${info.translation.key}]`
+          }
+
+          // Add the v-for row a repeated element is scoped to
+          if (info.row) {
+            details += ` [ROW ${info.row.type}="${info.row.rawValue}"]`
+          }
+
+          // Add where teleported content renders
+          if (info.teleport) {
+            details += ` [TELEPORT → ${info.teleport.selector ?? 'page'}]`
+          }
+
+          // Add slot / template wrapper if relevant
+          if (info.slotName) {
+            details += ` [SLOT #${info.slotName}]`
+          }
+          if (info.templateWrapper && getRenderingAncestor(info)?.tag !== 'template') {
+            details += ` <template ${info.templateWrapper}>`
+          }
+
+          // Add parent context if relevant
+          if (info.parentContext) {
+            details += ` (${info.parentContext})`
+          }
+
+          // Add source location so editors can jump to the element
+          if (info.location) {
+            details += ` @ ${formatLocation(info.location)}`
+          }
+
+          log(`      ${status} ${details}`)
+        })
       })
-    })
+    }
 
     // Display custom component warnings
-    if (customComponentWarnings.length > 0) {
-      console.log('\n⚠️  CUSTOM COMPONENT WARNINGS:')
+    if (showReport && customComponentWarnings.length > 0) {
+      log('\n⚠️  CUSTOM COMPONENT WARNINGS:')
       customComponentWarnings.forEach((warning) => {
-        console.log(`🔸 ${warning.file}: ${warning.message}`)
+        log(`🔸 ${warning.message}`)
       })
-      console.log('\n💡 RECOMMENDATION: For better test coverage, consider:')
-      console.log('   1. Adding data-testid to custom component root elements')
-      console.log(
-        '   2. Using component composition to expose testable elements'
-      )
-      console.log(
-        '   3. Running dynamic extraction on the rendered application'
-      )
+      log('\n💡 RECOMMENDATION: For better test coverage, consider:')
+      log('   1. Adding data-testid to custom component root elements')
+      log('   2. Using component composition to expose testable elements')
+      log('   3. Running dynamic extraction on the rendered application')
     }
 
     // Separate robust and fragile locators
@@ -77,57 +210,437 @@ const vueProjectPath = process.argv[2] || './test-vue-src';
       }
     }
 
+    // Template literal source for a templated value, holes as parameters
+    const toTemplateLiteral = (
+      template: ValueTemplate,
+      prefix = '',
+      suffix = ''
+    ) =>
+      `\`${prefix}${template.parts
+        .map((part) =>
+          part.kind === 'text'
+            ? part.value.replace(/[`\\]/g, '\\$&').replace(/\$\{/g, '\\${')
+            : `\${${part.param}}`
+        )
+        .join('')}${suffix}\``
+
+    // Regex literal matching any instance of a templated value
+    const toTemplateRegex = (template: ValueTemplate) =>
+      `/^${template.parts
+        .map((part) =>
+          part.kind === 'text'
+            ? part.value.replace(/[.*+?^${}()|[\]\\/]/g, '\\$&')
+            : '.+'
+        )
+        .join('')}$/`
+
+    // Whether a templated value is a translated message with placeholders,
+    // with a template per locale
+    const hasLocalizedTemplates = (
+      info: Partial<Pick<(typeof groupedLocators)[string][string], 'translation'>>
+    ) => Object.keys(info.translation?.templates ?? {}).length > 0
+
+    // Selector per locale, picked by the `locale` expression
+    const toLocaleSelector = (selectors: Record<string, string>, locale: string) =>
+      `({ ${Object.entries(selectors)
+        .map(([name, selector]) => `${toStringLiteral(name)}: ${toStringLiteral(selector)}`)
+        .join(', ')} } as Record<string, string>)[${locale}]`
+
+    // A templated value rendered per locale when it is a translated message
+    // with placeholders, picked by `locale`; otherwise rendered once
+    const toLocalizedTemplate = (
+      info: Partial<Pick<(typeof groupedLocators)[string][string], 'translation'>>,
+      template: ValueTemplate,
+      render: (template: ValueTemplate) => string,
+      locale: string,
+      type = 'string'
+    ) => {
+      const templates = Object.entries(info.translation?.templates ?? {})
+      if (templates.length === 0) return render(template)
+      return `({ ${templates
+        .map(([name, localeTemplate]) => `${toStringLiteral(name)}: ${render(localeTemplate)}`)
+        .join(', ')} } as Record<string, ${type}>)[${locale}]`
+    }
+
+    // Playwright call for one instance of a templated value
+    const generateTemplatedMethodCall = (
+      info: (typeof groupedLocators)[string][string],
+      template: ValueTemplate
+    ) => {
+      const value = toLocalizedTemplate(
+        info,
+        template,
+        (localeTemplate) => toTemplateLiteral(localeTemplate),
+        'this.locale'
+      )
+      if (isPlaywrightTestId(info)) return `this.page.getByTestId(${value})`
+      switch (info.type) {
+        case 'aria-label':
+          return `this.page.getByLabel(${value})`
+        case 'placeholder':
+          return `this.page.getByPlaceholder(${value})`
+        default:
+          return `this.page.locator(${toLocalizedTemplate(
+            info,
+            template,
+            (localeTemplate) =>
+              toTemplateLiteral(localeTemplate, `[${toSelectorAttribute(info)}="`, '"]'),
+            'this.locale'
+          )})`
+      }
+    }
+
+    // "Any instance" fallback for a templated value: a regex where Playwright
+    // accepts one, otherwise the ^= / $= attribute selector
+    const generateTemplatedFallback = (
+      info: Pick<(typeof groupedLocators)[string][string], 'type' | 'selector'> &
+        Partial<Pick<(typeof groupedLocators)[string][string], 'translation'>>,
+      template: ValueTemplate
+    ) => {
+      const pattern = toLocalizedTemplate(
+        info,
+        template,
+        toTemplateRegex,
+        'locale',
+        'RegExp'
+      )
+      if (isPlaywrightTestId(info)) return `page.getByTestId(${pattern})`
+      switch (info.type) {
+        case 'aria-label':
+          return `page.getByLabel(${pattern})`
+        case 'placeholder':
+          return `page.getByPlaceholder(${pattern})`
+        default:
+          return `page.locator(${
+            info.translation && hasLocalizedTemplates(info)
+              ? toLocaleSelector(info.translation.selectors, 'locale')
+              : toStringLiteral(info.selector)
+          })`
+      }
+    }
+
+    // String literal source, single-quoted
+    const toStringLiteral = (value: string) =>
+      `'${value.replace(/\\/g, '\\\\').replace(/'/g, "\\'")}'`
+
+    // Page Object members follow the project's naming convention; names are
+    // built in camelCase
+    const toMemberName = (name: string) => {
+      switch (config.naming.propertyCase) {
+        case 'pascal':
+          return name.charAt(0).toUpperCase() + name.slice(1)
+        case 'snake':
+          return name.replace(/([a-z0-9])([A-Z])/g, '$1_$2').toLowerCase()
+        default:
+          return name
+      }
+    }
+
+    // getByTestId only matches the one testIdAttribute Playwright is
+    // configured with; other test id attributes need their selector
+    const isPlaywrightTestId = (
+      info: Pick<(typeof groupedLocators)[string][string], 'type' | 'selector'>
+    ) =>
+      (info.type === 'data-testid' || info.type === 'data-test-id') &&
+      toSelectorAttribute(info) === config.testIdAttribute
+
+    // Teleported content renders in its target rather than inside the
+    // component, so its locators start from the target element
+    const scopeToTeleportTarget = (
+      method: string,
+      info: (typeof groupedLocators)[string][string]
+    ) => {
+      const selector = info.teleport?.selector
+      if (!selector) return method
+      return method.replace(
+        /^(this\.)?page\./,
+        (prefix) => `${prefix}locator(${toStringLiteral(selector)}).`
+      )
+    }
+
+    // Locale-aware locator for a translated value, looking the message up
+    // for the Page Object's locale. Undefined for untranslated values
+    const generateLocalizedLocator = (
+      info: (typeof groupedLocators)[string][string]
+    ) => {
+      const translation = info.translation
+      if (!translation || Object.keys(translation.values).length === 0) {
+        return undefined
+      }
+
+      const message = `messages[locale][${toStringLiteral(translation.key)}]`
+      if (isPlaywrightTestId(info)) return `page.getByTestId(${message})`
+      switch (info.type) {
+        case 'aria-label':
+          return info.resolvedComponent?.role
+            ? `page.getByRole(${toStringLiteral(info.resolvedComponent.role)}, { name: ${message} })`
+            : `page.getByLabel(${message})`
+        case 'placeholder':
+          return `page.getByPlaceholder(${message})`
+        default:
+          return `page.locator(${toLocaleSelector(translation.selectors, 'locale')})`
+      }
+    }
+
+    // getByRole(role, { name }) for locators whose element has a role and
+    // accessible name no other element of the page matches
+    const generateRoleLocator = (
+      info: (typeof groupedLocators)[string][string]
+    ) => {
+      const accessibility = info.accessibility
+      if (!accessibility?.unique || !accessibility.name) return undefined
+      if (!['role', 'aria-label', 'class', 'xpath'].includes(info.type)) {
+        return undefined
+      }
+
+      // A translated name follows the Page Object's locale
+      const translation = info.translation
+      const name =
+        translation?.values[translation.locale] === accessibility.name
+          ? `messages[locale][${toStringLiteral(translation.key)}]`
+          : toStringLiteral(accessibility.name)
+      const level =
+        accessibility.role === 'heading' && accessibility.level
+          ? `, level: ${accessibility.level}`
+          : ''
+      return `page.getByRole(${toStringLiteral(accessibility.role)}, { name: ${name}${level} })`
+    }
+
+    type LocatorRow = NonNullable<(typeof groupedLocators)[string][string]['row']>
+
+    // Locator matching every row of a v-for list
+    const generateRowsLocator = (row: LocatorRow) => {
+      if (row.valueTemplate) {
+        return generateTemplatedFallback(row, row.valueTemplate)
+      }
+      return isPlaywrightTestId(row)
+        ? `page.getByTestId(${toStringLiteral(row.rawValue)})`
+        : `page.locator(${toStringLiteral(row.selector)})`
+    }
+
+    // Member name of a row: its value's words, e.g. `order-row-{order.id}`
+    // → order, else its tag
+    const toRowName = (row: LocatorRow) => {
+      const words = row.rawValue
+        .replace(/\{[^}]*\}/g, ' ')
+        .split(/[^a-zA-Z0-9]+/)
+        .filter(Boolean)
+        .map((word) => word.toLowerCase())
+      if (words.length > 1 && words[words.length - 1] === 'row') words.pop()
+      const name = words
+        .map((word, index) =>
+          index === 0 ? word : word.charAt(0).toUpperCase() + word.slice(1)
+        )
+        .join('')
+      return /^[a-z]/.test(name) ? name : row.element.replace(/[^a-zA-Z0-9]/g, '')
+    }
+
+    const isLocalized = (locatorSet: (typeof groupedLocators)[string]) =>
+      Object.values(locatorSet).some(
+        (info) => generateLocalizedLocator(info) || hasLocalizedTemplates(info)
+      )
+
+    // Metadata comment of a Page Object member: the locator, where and how
+    // often its element renders, and its source location. Each ancestor is
+    // named once: the parentContext also covers an enclosing <template>, and
+    // the row covers the v-for it repeats by
+    const describeLocator = (info: (typeof groupedLocators)[string][string]) => {
+      const renderingAncestor = getRenderingAncestor(info)
+      let comment = `${info.element} with ${info.type}: "${info.rawValue}" (${info.robustness})`
+
+      if (info.isDynamic && info.isConditional) {
+        comment += ' - DYNAMIC & CONDITIONAL'
+      } else if (info.isDynamic) {
+        comment += ' - DYNAMIC (may be repeated)'
+      } else if (info.isConditional) {
+        comment += ' - CONDITIONAL (may not always be present)'
+      }
+
+      if (info.resolvedComponent) {
+        const { name, file, library } = info.resolvedComponent
+        comment += ` - rendered by <${name}> (${file ?? `${library} preset`})`
+      }
+
+      if (info.slotName) {
+        comment += ` - slot #${info.slotName}`
+      }
+
+      if (info.templateWrapper && renderingAncestor?.tag !== 'template') {
+        comment += ` - inside <template ${info.templateWrapper}>`
+      }
+
+      if (info.label) {
+        comment += ` - labelled "${info.label.text}" (${formatLocation(info.label.location)})`
+      }
+
+      if (info.row) {
+        comment += ` - in ${info.row.element} rows of v-for="${info.row.iterator}"`
+      }
+
+      if (info.teleport) {
+        comment += ` - teleported to ${info.teleport.to} by <${info.teleport.component}> (${formatLocation(info.teleport.location)})`
+      }
+
+      if (info.translation) {
+        comment += ` - translated from ${info.translation.key} (${info.translation.locale})`
+      }
+
+      if (info.resolvedFromConstant) {
+        comment += ` - from ${info.resolvedFromConstant.split(' → ')[0]}`
+        if (info.resolvedConstantFile) {
+          comment += ` (${info.resolvedConstantFile})`
+        }
+      }
+
+      if (
+        info.parentContext &&
+        !(info.row && renderingAncestor?.renderDirectives['v-for'] === info.row.iterator)
+      ) {
+        comment += ` - ${info.parentContext}`
+      }
+
+      if (info.location) {
+        comment += ` - ${formatLocation(info.location)}`
+      }
+
+      return comment
+    }
+
+    // camelCase member name of a locator key, without xpath references
+    const toPropertyName = (key: string) =>
+      key
+        .replace(/_(\w)/g, (_, letter) => letter.toUpperCase()) // snake_case to camelCase
+        .replace(/^(\w)/, (_, letter) => letter.toLowerCase()) // ensure first letter is lowercase
+        .replace(/[^a-zA-Z0-9]/g, '') // remove any special characters
+        .replace(/xpath/gi, '')
+        .replace(/^_+|_+$/g, '') || 'element'
+
+    // Source file of a group of locators; elements built in scripts are
+    // grouped under `file.ts (JS/TS)`
+    const toSourceFile = (file: string) => file.replace(/ \(JS\/TS\)$/, '')
+
+    // Names of files that no two files share: the first of `candidates` that
+    // tells apart all files it would otherwise give one name, else the last
+    // with a hash of the path. A name only depends on the paths involved,
+    // never on the order files were scanned in
+    const toUniqueNames = (
+      files: string[],
+      candidates: Array<(file: string) => string>
+    ) => {
+      const names = new Map<string, string>()
+      const assign = (group: string[], level: number) => {
+        const byName = new Map<string, string[]>()
+        for (const file of group) {
+          const name = candidates[level](file)
+          byName.set(name, [...(byName.get(name) ?? []), file])
+        }
+        for (const [name, clashing] of byName) {
+          if (clashing.length === 1) {
+            names.set(clashing[0], name)
+          } else if (level + 1 < candidates.length) {
+            assign(clashing, level + 1)
+          } else {
+            for (const file of clashing) {
+              const hash = crypto.createHash('sha1').update(file).digest('hex')
+              names.set(file, `${name}_${hash.slice(0, 6)}`)
+            }
+          }
+        }
+      }
+      assign(files, 0)
+      return names
+    }
+
+    // A mangled path as an identifier
+    const toIdentifier = (name: string) =>
+      name
+        .replace(/[^a-zA-Z0-9_]/g, '_')
+        .replace(/^_+|_+$/g, '')
+        .replace(/^(\d)/, '_$1') || 'component'
+
+    // Class name of each file's Page Objects (without the suffix), made from
+    // its path. Paths that mangle to the same name keep what tells them
+    // apart: a/b_c.vue and a_b/c.vue their directory separators (a__b_c,
+    // a_b__c), login.vue and login.html their extension
+    const pageClassBaseNames = toUniqueNames(Object.keys(groupedLocators), [
+      (file) =>
+        toIdentifier(
+          file.replace(/[\/\\]/g, '_').replace(/\.(vue|html|jsx|tsx|js|ts)$/, '')
+        ),
+      (file) =>
+        toIdentifier(
+          file.replace(/[\/\\]/g, '__').replace(/\.(vue|html|jsx|tsx|js|ts)$/, '')
+        ),
+      (file) =>
+        toIdentifier(file.replace(/[\/\\]/g, '__').replace(/\.(\w+)( \(JS\/TS\))?$/, '_$1'))
+    ])
+
+    const toPageClassName = (file: string) =>
+      `${pageClassBaseNames.get(file)}${config.naming.classSuffix}`
+
+    // Module of each file's Page Objects in the per-file layout: its path
+    // without the extension, keeping the extension where two files would
+    // share a module (login.html and login.ts → login_html, login_ts)
+    const modulePaths = toUniqueNames(Object.keys(groupedLocators), [
+      (file) => toSourceFile(file).replace(/\\/g, '/').replace(/\.\w+$/, ''),
+      (file) => toSourceFile(file).replace(/\\/g, '/').replace(/\.(\w+)$/, '_$1')
+    ])
+
+    // Import specifier of an output file from a module in the output
+    // directory, e.g. '../messages' from pageObjects/loginForm.ts
+    const toRelativeImport = (fromModule: string, toModule: string) => {
+      const specifier = path.posix.relative(path.posix.dirname(fromModule), toModule)
+      return specifier.startsWith('.') ? specifier : `./${specifier}`
+    }
+
     // Generate Playwright Page Object Model classes for robust locators
     const generatePageObjectClasses = (
       locators: typeof groupedLocators,
       includeWarnings = false
     ) => {
       return Object.entries(locators).map(([file, locatorSet]) => {
-        const className =
-          `${file
-            .replace(/[\/\\]/g, '_')
-            .replace(/\.(vue|html|js|ts)$/, '')
-            .replace(/[^a-zA-Z0-9_]/g, '_')
-            .replace(/^_+|_+$/g, '')  }Page`
+        const className = toPageClassName(file)
 
         // Generate Playwright locator properties
         const locatorDeclarations: string[] = []
         const locatorInitializations: string[] = []
+        const memberNames = new Set<string>()
+        const templatedMethods: Array<{
+          name: string;
+          params: string[];
+          comment: string;
+          source: (name: string) => string;
+        }> = []
+        // Rows repeated locators are scoped to, by the row's location
+        const rows = new Map<
+          string,
+          { row: LocatorRow; property: string; method: string }
+        >()
 
         Object.entries(locatorSet).forEach(([key, info]) => {
-          // Convert to proper camelCase
-          const propertyName = key
-            .replace(/_(\w)/g, (_, letter) => letter.toUpperCase()) // snake_case to camelCase
-            .replace(/^(\w)/, (_, letter) => letter.toLowerCase()) // ensure first letter is lowercase
-            .replace(/[^a-zA-Z0-9]/g, '') // remove any special characters
-
           let playwrightMethod = ''
 
           // Map to appropriate Playwright locator method
           switch (info.type) {
             case 'data-testid':
-              playwrightMethod = `page.getByTestId('${info.rawValue}')`
-              break
             case 'data-test-id':
-              playwrightMethod = `page.getByTestId('${info.rawValue}')`
+              // Other test id attributes than Playwright's are matched by
+              // their selector
+              playwrightMethod = isPlaywrightTestId(info)
+                ? `page.getByTestId(${toStringLiteral(info.rawValue)})`
+                : `page.locator(${toStringLiteral(info.selector)})`
               break
             case 'data-test':
-              playwrightMethod = `page.locator('[data-test="${info.rawValue}"]')`
+              playwrightMethod = `page.locator(${toStringLiteral(`[data-test="${info.rawValue}"]`)})`
               break
             case 'id':
-              // Use getByTestId for strong or XGrid elements with id
-              if (
-                info.element &&
-                (info.element.toLowerCase() === 'strong' ||
-                  info.element.toLowerCase() === 'xgrid')
-              ) {
-                playwrightMethod = `page.getByTestId('${info.rawValue}')`
-              } else {
-                playwrightMethod = `page.locator('#${info.rawValue}')`
-              }
+              playwrightMethod = `page.locator(${toStringLiteral(`#${info.rawValue}`)})`
               break
             case 'aria-label':
-              playwrightMethod = `page.getByLabel('${info.rawValue}')`
+              // Library components know the role of the control they render
+              playwrightMethod = info.resolvedComponent?.role
+                ? `page.getByRole(${toStringLiteral(info.resolvedComponent.role)}, { name: ${toStringLiteral(info.rawValue)} })`
+                : `page.getByLabel(${toStringLiteral(info.rawValue)})`
               break
             case 'role':
               // Use getByRole with proper options for common interactive roles
@@ -145,76 +658,173 @@ const vueProjectPath = process.argv[2] || './test-vue-src';
               if (
                 commonInteractiveRoles.includes(info.rawValue.toLowerCase())
               ) {
-                playwrightMethod = `page.getByRole('${info.rawValue}')`
+                playwrightMethod = `page.getByRole(${toStringLiteral(info.rawValue)})`
               } else {
                 // For structural roles, use getByRole with name option if available
-                playwrightMethod = `page.getByRole('${info.rawValue}')`
+                playwrightMethod = `page.getByRole(${toStringLiteral(info.rawValue)})`
               }
               break
             case 'placeholder':
-              playwrightMethod = `page.getByPlaceholder('${info.rawValue}')`
+              playwrightMethod = `page.getByPlaceholder(${toStringLiteral(info.rawValue)})`
               break
             case 'name':
-              // For form elements, prefer getByLabel if we can infer it's a form field
-              const formElements = ['input', 'textarea', 'select']
-              if (
-                info.element &&
-                formElements.includes(info.element.toLowerCase())
-              ) {
-                // Use getByLabel if there's likely an associated label, otherwise use name locator
-                playwrightMethod = `page.getByLabel('${info.rawValue}')`
+              // getByLabel matches label text, so only a control with a
+              // real <label> can use it
+              if (info.label) {
+                playwrightMethod = `page.getByLabel(${toStringLiteral(info.label.text)})`
               } else {
-                playwrightMethod = `page.locator('[name="${info.rawValue}"]')`
+                playwrightMethod = `page.locator(${toStringLiteral(info.selector)})`
               }
               break
             case 'class':
-              playwrightMethod = `page.locator('${info.selector}')`
+              playwrightMethod = `page.locator(${toStringLiteral(info.selector)})`
               break
             case 'xpath':
-              const escapedXPath = info.rawValue.replace(/'/g, "\\'")
-              playwrightMethod = `page.locator('${escapedXPath}')`
+              playwrightMethod = `page.locator(${toStringLiteral(info.rawValue)})`
               break
             default:
-              playwrightMethod = `page.locator('${info.selector}')`
+              playwrightMethod = `page.locator(${toStringLiteral(info.selector)})`
           }
 
           // Enhanced comment with dynamic/conditional information
-          let comment = `  // ${info.element} with ${info.type}: "${info.rawValue}" (${info.robustness})`
-
-          if (info.isDynamic && info.isConditional) {
-            comment += ' - DYNAMIC & CONDITIONAL'
-          } else if (info.isDynamic) {
-            comment += ' - DYNAMIC (may be repeated)'
-          } else if (info.isConditional) {
-            comment += ' - CONDITIONAL (may not always be present)'
-          }
-
-          if (info.parentContext) {
-            comment += ` - ${info.parentContext}`
-          }
+          const comment = `  // ${describeLocator(info)}`
 
           const warningComment =
             includeWarnings && info.warning
               ? `\n  // WARNING: ${info.warning}`
               : ''
 
-          // Clean up property name - remove xpath references and ensure camelCase
-          const cleanPropertyName = propertyName
-            .replace(/xpath/gi, '')
-            .replace(/^_+|_+$/g, '')
-          const finalPropertyName = cleanPropertyName || 'element'
+          const finalPropertyName = toPropertyName(key)
+
+          // Repeated elements of a row list only get the row-scoped method
+          // below: a page-wide locator would match once per row
+          const rowScoped = Boolean(info.row && !info.valueTemplate)
 
           // Add to declarations array
-          locatorDeclarations.push(
-            `${comment}${warningComment}\n  readonly ${finalPropertyName}: Locator;`
-          )
+          if (!rowScoped) {
+            locatorDeclarations.push(
+              `${comment}${warningComment}\n  readonly ${toMemberName(finalPropertyName)}: Locator;`
+            )
+          }
+
+          // A generator override in the project's config pins the method;
+          // otherwise prefer the role and accessible name, and translated
+          // values follow the locale the Page Object is built for
+          const override = findGeneratorOverride(config, info.element, info.type)
+          playwrightMethod = override
+            ? `page.${override.method}(${toStringLiteral(
+              override.method === 'locator' ? info.selector : info.rawValue
+            )})`
+            : generateRoleLocator(info) ??
+              generateLocalizedLocator(info) ??
+              playwrightMethod
+
+          // Templated values: the property matches any instance, a method
+          // builds the locator for one
+          const template = info.valueTemplate
+          if (template) {
+            playwrightMethod = generateTemplatedFallback(info, template)
+            const parameters = template.params
+              .map((param) => `${param}: string`)
+              .join(', ')
+            templatedMethods.push({
+              name:
+                finalPropertyName.replace(/(Dynamic)?(Conditional)?$/, '') ||
+                finalPropertyName,
+              params: template.params,
+              comment,
+              source: (name) =>
+                `  ${name}(${parameters}): Locator {\n    return ${scopeToTeleportTarget(
+                  generateTemplatedMethodCall(info, template),
+                  info
+                )};\n  }`
+            })
+          }
+
+          playwrightMethod = scopeToTeleportTarget(playwrightMethod, info)
+
+          // Repeated elements are addressed within one row of their list;
+          // templated values already pick out one instance
+          const row = info.row
+          if (row && !template) {
+            const rowKey = `${row.location.file}:${row.location.startOffset}`
+            const rowMember = rows.get(rowKey) ?? {
+              row,
+              property: `${toRowName(row)}Rows`,
+              method: `${toRowName(row)}Row`
+            }
+            rows.set(rowKey, rowMember)
+            const method = playwrightMethod
+            templatedMethods.push({
+              name: `${
+                finalPropertyName.replace(/(Dynamic)?(Conditional)?$/, '') ||
+                finalPropertyName
+              }InRow`,
+              params: ['row'],
+              comment,
+              source: (name) =>
+                `  ${name}(row: number | string | RegExp): Locator {\n    return ${method
+                  .replace(/^page\./, () => `this.${toMemberName(rowMember.method)}(row).`)
+                  .replace(/messages\[locale\]/g, 'messages[this.locale]')};\n  }`
+            })
+          }
 
           // Add to initializations array
+          if (!rowScoped) {
+            memberNames.add(finalPropertyName)
+            locatorInitializations.push(
+              `    this.${toMemberName(finalPropertyName)} = ${playwrightMethod};`
+            )
+          }
+        })
+
+        // Method names must not clash with properties or each other
+        const methodNames = templatedMethods.map((method) => {
+          let name = method.name
+          if (memberNames.has(name) && method.params.length > 0) {
+            name = `${method.name}By${method.params
+              .map((param) => param.charAt(0).toUpperCase() + param.slice(1))
+              .join('And')}`
+          }
+          const baseName = name
+          for (let index = 2; memberNames.has(name); index++) {
+            name = `${baseName}${index}`
+          }
+          memberNames.add(name)
+          return name
+        })
+
+        // Rows: every instance, and one by index or by the text it contains
+        const rowSources = [...rows.values()].map((member) => {
+          const baseName = member.property.replace(/Rows$/, '')
+          if (memberNames.has(member.method)) member.method = `${baseName}RowAt`
+          for (
+            let index = 2;
+            memberNames.has(member.property) || memberNames.has(member.method);
+            index++
+          ) {
+            member.property = `${baseName}${index}Rows`
+            member.method = `${baseName}${index}Row`
+          }
+          memberNames.add(member.property)
+          memberNames.add(member.method)
+
+          const property = toMemberName(member.property)
+          const method = toMemberName(member.method)
+          const { row } = member
+          const comment = `  // ${row.element} rows of v-for="${row.iterator}" - ${row.type}: "${row.rawValue}" - ${formatLocation(row.location)}`
+          locatorDeclarations.push(`${comment}\n  readonly ${property}: Locator;`)
           locatorInitializations.push(
-            `    this.${finalPropertyName} = ${playwrightMethod};`
+            `    this.${property} = ${generateRowsLocator(row)};`
           )
+          return `${comment}\n  ${method}(row: number | string | RegExp): Locator {\n    return typeof row === 'number'\n      ? this.${property}.nth(row)\n      : this.${property}.filter({ hasText: row });\n  }`
         })
 
+        const methodSources = templatedMethods.map(
+          (method, index) =>
+            `${method.comment}\n${method.source(toMemberName(methodNames[index]))}`
+        )
+
         const classComment = includeWarnings
           ? '// FRAGILE LOCATORS - Consider improving these with stable test attributes'
           : '// ROBUST PAGE OBJECT MODEL - Recommended for E2E testing'
@@ -225,22 +835,957 @@ const vueProjectPath = process.argv[2] || './test-vue-src';
           ? '\n// NOTE: Some locators are marked as DYNAMIC or CONDITIONAL - test carefully for element presence'
           : ''
 
-        return `${classComment}${dynamicWarning}\n// File: ${file}\nimport { Page, Locator } from '@playwright/test';\n\nexport class ${className} {\n${locatorDeclarations.join(
+        // Classes with translated locators take the locale to resolve them in
+        const localized = isLocalized(locatorSet)
+        const constructorParams = localized
+          ? 'protected page: Page, protected locale: Locale = defaultLocale'
+          : 'protected page: Page'
+
+        return `${classComment}${dynamicWarning}\n// File: ${file}\n\nexport class ${className} {\n${locatorDeclarations.join(
           '\n\n'
-        )}\n\n  constructor(protected page: Page) {\n${locatorInitializations.join(
+        )}\n\n  constructor(${constructorParams}) {\n${locatorInitializations.join(
           '\n'
-        )}\n  }\n}`
+        )}\n  }${[...rowSources, ...methodSources]
+          .map((source) => `\n\n${source}`)
+          .join('')}\n}`
+      })
+    }
+
+    // Imports of a file of Playwright Page Objects, once for all its classes
+    const generatePageObjectImports = (
+      locators: typeof groupedLocators,
+      messagesImport = './messages'
+    ) =>
+      `import { Page, Locator } from '@playwright/test';\n${
+        Object.values(locators).some(isLocalized)
+          ? `import { defaultLocale, messages, type Locale } from '${messagesImport}';\n`
+          : ''
+      }\n`
+
+    // Cypress query for a locator: Testing Library's findByRole and
+    // findByLabelText where the element has a unique role and name or a
+    // label, the getByXPath command for XPaths and cy.get otherwise
+    const generateCypressQuery = (
+      info: (typeof groupedLocators)[string][string]
+    ) => {
+      const { accessibility, translation } = info
+      const translated =
+        translation && Object.keys(translation.values).length > 0
+          ? translation
+          : undefined
+
+      if (
+        accessibility?.unique &&
+        accessibility.name &&
+        ['role', 'aria-label', 'class', 'xpath'].includes(info.type)
+      ) {
+        const name =
+          translated?.values[translated.locale] === accessibility.name
+            ? `messages[this.locale][${toStringLiteral(translated.key)}]`
+            : toStringLiteral(accessibility.name)
+        const level =
+          accessibility.role === 'heading' && accessibility.level
+            ? `, level: ${accessibility.level}`
+            : ''
+        return `cy.findByRole(${toStringLiteral(accessibility.role)}, { name: ${name}${level} })`
+      }
+      if (info.type === 'aria-label' && info.resolvedComponent?.role && !translated) {
+        return `cy.findByRole(${toStringLiteral(info.resolvedComponent.role)}, { name: ${toStringLiteral(info.rawValue)} })`
+      }
+      if (info.type === 'name' && info.label) {
+        return `cy.findByLabelText(${toStringLiteral(info.label.text)})`
+      }
+
+      const command = info.type === 'xpath' ? 'cy.getByXPath' : 'cy.get'
+      return `${command}(${toCypressSelector(info)})`
+    }
+
+    // Selector source of a locator; translated values follow the Page
+    // Object's locale
+    const toCypressSelector = (info: (typeof groupedLocators)[string][string]) => {
+      const translation = info.translation
+      if (!translation || Object.keys(translation.selectors).length === 0) {
+        return toStringLiteral(info.selector)
+      }
+      return toLocaleSelector(translation.selectors, 'this.locale')
+    }
+
+    // Run a query within a subject: a teleport target or a row. XPaths are
+    // absolute, so they stay document-wide
+    const scopeCypressQuery = (query: string, subject: string) =>
+      query.startsWith('cy.getByXPath')
+        ? query
+        : query.replace(/^cy\.(get\()?/, (_, get?: string) =>
+          get ? `${subject}.find(` : `${subject}.`
+        )
+
+    // Cypress Page Object classes, with the same split and comments as the
+    // Playwright ones. Members are getters, so every use queries the page
+    // again and retries
+    const generateCypressPageObjects = (
+      locators: typeof groupedLocators,
+      includeWarnings = false
+    ) => {
+      return Object.entries(locators).map(([file, locatorSet]) => {
+        const className = toPageClassName(file)
+        const memberNames = new Set<string>()
+        const getters: string[] = []
+        const methods: Array<{
+          name: string;
+          params: string[];
+          comment: string;
+          source: (name: string) => string;
+        }> = []
+        const rows = new Map<
+          string,
+          { row: LocatorRow; property: string; method: string }
+        >()
+
+        Object.entries(locatorSet).forEach(([key, info]) => {
+          const propertyName = toPropertyName(key)
+          const baseName =
+            propertyName.replace(/(Dynamic)?(Conditional)?$/, '') || propertyName
+          const comment = `  // ${describeLocator(info)}`
+          const warningComment =
+            includeWarnings && info.warning
+              ? `\n  // WARNING: ${info.warning}`
+              : ''
+
+          const teleportTarget = info.teleport?.selector
+          const scopeToTarget = (query: string) =>
+            teleportTarget
+              ? scopeCypressQuery(query, `cy.get(${toStringLiteral(teleportTarget)})`)
+              : query
+
+          // Templated values: the getter matches any instance, a method
+          // builds the query for one
+          const template = info.valueTemplate
+          const query = scopeToTarget(
+            template
+              ? `cy.get(${toCypressSelector(info)})`
+              : generateCypressQuery(info)
+          )
+          if (template && info.type !== 'xpath') {
+            const attribute =
+              info.selector.match(/^\[([^\]=^$*~|]+)/)?.[1] ?? info.type
+            const parameters = template.params
+              .map((param) => `${param}: string`)
+              .join(', ')
+            const instanceQuery = scopeToTarget(
+              `cy.get(${toLocalizedTemplate(
+                info,
+                template,
+                (localeTemplate) =>
+                  toTemplateLiteral(localeTemplate, `[${attribute}="`, '"]'),
+                'this.locale'
+              )})`
+            )
+            methods.push({
+              name: baseName,
+              params: template.params,
+              comment,
+              source: (name) =>
+                `  ${name}(${parameters}) {\n    return ${instanceQuery};\n  }`
+            })
+          }
+
+          memberNames.add(propertyName)
+          getters.push(
+            `${comment}${warningComment}\n  get ${toMemberName(propertyName)}() {\n    return ${query};\n  }`
+          )
+
+          // Repeated elements: one within a row of their list, else one by
+          // index
+          const row = info.row
+          if (row && !template) {
+            const rowKey = `${row.location.file}:${row.location.startOffset}`
+            const rowMember = rows.get(rowKey) ?? {
+              row,
+              property: `${toRowName(row)}Rows`,
+              method: `${toRowName(row)}Row`
+            }
+            rows.set(rowKey, rowMember)
+            if (!query.startsWith('cy.getByXPath')) {
+              methods.push({
+                name: `${baseName}InRow`,
+                params: ['row'],
+                comment,
+                source: (name) =>
+                  `  ${name}(row: number | string | RegExp) {\n    return ${scopeCypressQuery(
+                    generateCypressQuery(info),
+                    `this.${toMemberName(rowMember.method)}(row)`
+                  )};\n  }`
+              })
+            }
+          } else if (info.isDynamic && !template) {
+            methods.push({
+              name: `${baseName}At`,
+              params: ['index'],
+              comment,
+              source: (name) =>
+                `  ${name}(index: number) {\n    return this.${toMemberName(propertyName)}.eq(index);\n  }`
+            })
+          }
+
+          // Conditional elements: act on them only when they are rendered
+          if (info.isConditional && info.type !== 'xpath') {
+            methods.push({
+              name: `${baseName}IfPresent`,
+              params: ['callback'],
+              comment,
+              source: (name) =>
+                `  ${name}(callback: ($element: JQuery<HTMLElement>) => void) {\n    cy.ifPresent(${toCypressSelector(info)}, callback);\n  }`
+            })
+          }
+        })
+
+        // Method names must not clash with getters or each other
+        const methodNames = methods.map((method) => {
+          let name = method.name
+          if (memberNames.has(name) && method.params.length > 0) {
+            name = `${method.name}By${method.params
+              .map((param) => param.charAt(0).toUpperCase() + param.slice(1))
+              .join('And')}`
+          }
+          const baseName = name
+          for (let index = 2; memberNames.has(name); index++) {
+            name = `${baseName}${index}`
+          }
+          memberNames.add(name)
+          return name
+        })
+
+        // Rows: every instance, and one by index or by the text it contains
+        const rowSources = [...rows.values()].map((member) => {
+          const baseName = member.property.replace(/Rows$/, '')
+          if (memberNames.has(member.method)) member.method = `${baseName}RowAt`
+          for (
+            let index = 2;
+            memberNames.has(member.property) || memberNames.has(member.method);
+            index++
+          ) {
+            member.property = `${baseName}${index}Rows`
+            member.method = `${baseName}${index}Row`
+          }
+          memberNames.add(member.property)
+          memberNames.add(member.method)
+
+          const property = toMemberName(member.property)
+          const method = toMemberName(member.method)
+          const { row } = member
+          const comment = `  // ${row.element} rows of v-for="${row.iterator}" - ${row.type}: "${row.rawValue}" - ${formatLocation(row.location)}`
+          return [
+            comment,
+            `  get ${property}() {`,
+            `    return cy.get(${toStringLiteral(row.selector)});`,
+            '  }',
+            '',
+            comment,
+            `  ${method}(row: number | string | RegExp) {`,
+            "    return typeof row === 'number'",
+            `      ? this.${property}.eq(row)`,
+            `      : this.${property}.filter((_, element) => {`,
+            "        const text = element.textContent ?? '';",
+            "        return typeof row === 'string' ? text.includes(row) : row.test(text);",
+            '      });',
+            '  }'
+          ].join('\n')
+        })
+
+        const methodSources = methods.map(
+          (method, index) =>
+            `${method.comment}\n${method.source(toMemberName(methodNames[index]))}`
+        )
+
+        const classComment = includeWarnings
+          ? '// FRAGILE LOCATORS - Consider improving these with stable test attributes'
+          : '// ROBUST PAGE OBJECT MODEL - Recommended for E2E testing'
+
+        const dynamicWarning = Object.values(locatorSet).some(
+          (info) => info.isDynamic || info.isConditional
+        )
+          ? '\n// NOTE: Some locators are marked as DYNAMIC or CONDITIONAL - use the At, InRow and IfPresent helpers'
+          : ''
+
+        // Classes with translated locators take the locale to resolve them in
+        const constructor = isLocalized(locatorSet)
+          ? '\n  constructor(readonly locale: Locale = defaultLocale) {}\n'
+          : ''
+
+        return `${classComment}${dynamicWarning}\n// File: ${file}\n\nexport class ${className} {${constructor}\n${[
+          ...getters,
+          ...rowSources,
+          ...methodSources
+        ].join('\n\n')}\n}`
+      })
+    }
+
+    // Imports of a file of Cypress Page Objects, once for all its classes
+    const generateCypressImports = (locators: typeof groupedLocators) =>
+      Object.values(locators).some(isLocalized)
+        ? "import { defaultLocale, messages, type Locale } from './messages';\n\n"
+        : ''
+
+    // Custom commands the Cypress Page Objects use
+    const generateCypressCommands = () => `// CYPRESS CUSTOM COMMANDS
+// Commands the generated Page Objects use. Register them, with Cypress Testing
+// Library for the role and label queries, in cypress/support/e2e.ts:
+//   import '@testing-library/cypress/add-commands';
+//   import './cypressCommands';
+
+declare global {
+  // eslint-disable-next-line @typescript-eslint/no-namespace
+  namespace Cypress {
+    interface Chainable {
+      getByXPath(xpath: string): Chainable<JQuery<HTMLElement>>;
+      ifPresent(
+        selector: string,
+        callback: ($element: JQuery<HTMLElement>) => void
+      ): Chainable<void>;
+    }
+  }
+}
+
+// Elements matching an XPath, in document order. XPath fallbacks are fragile;
+// the query is not retried
+Cypress.Commands.add('getByXPath', (xpath: string) =>
+  cy.document().then((document) => {
+    const result = document.evaluate(
+      xpath,
+      document,
+      null,
+      XPathResult.ORDERED_NODE_SNAPSHOT_TYPE,
+      null
+    );
+    const elements: HTMLElement[] = [];
+    for (let index = 0; index < result.snapshotLength; index++) {
+      elements.push(result.snapshotItem(index) as HTMLElement);
+    }
+    return Cypress.$(elements);
+  })
+);
+
+// Calls back with the elements matching a selector when there are any, so
+// tests can act on CONDITIONAL elements without failing when they are absent
+Cypress.Commands.add(
+  'ifPresent',
+  (selector: string, callback: ($element: JQuery<HTMLElement>) => void) => {
+    cy.get('body').then(($body) => {
+      const $element = $body.find(selector);
+      if ($element.length > 0) callback($element);
+    });
+  }
+);
+
+export {};
+`
+
+    // CSS identifier with the characters CSS gives meaning to escaped, e.g.
+    // a Tailwind class `md:flex` → `md\:flex`
+    const toCssIdentifier = (value: string) =>
+      value
+        .replace(/[^a-zA-Z0-9_\u00a0-\uffff-]/g, '\\$&')
+        .replace(/^(-?)(\d)/, (_, dash: string, digit: string) =>
+          `${dash}\\3${digit} `
+        )
+
+    // [attribute="value"] with the value's quotes and backslashes escaped
+    const toCssAttributeSelector = (attribute: string, value: string) =>
+      `[${attribute}="${value.replace(/["\\]/g, '\\$&')}"]`
+
+    // Attribute a locator's selector matches, e.g. a configured test id
+    // attribute for a data-testid locator
+    const toSelectorAttribute = (
+      info: Pick<(typeof groupedLocators)[string][string], 'type' | 'selector'>
+    ) =>
+      info.selector.match(/^\[([^\]=^$*~|]+)/)?.[1] ??
+      (info.type === 'id' ? 'id' : info.type)
+
+    // Java string literal source, double-quoted
+    const toJavaString = (value: string) =>
+      `"${value
+        .replace(/\\/g, '\\\\')
+        .replace(/"/g, '\\"')
+        .replace(/\n/g, '\\n')
+        .replace(/\r/g, '\\r')
+        .replace(/\t/g, '\\t')}"`
+
+    // Java concatenation for one instance of a templated value
+    const toJavaConcatenation = (
+      template: ValueTemplate,
+      prefix = '',
+      suffix = ''
+    ) => {
+      const parts: string[] = []
+      let text = prefix
+      template.parts.forEach((part) => {
+        if (part.kind === 'text') {
+          text += part.value
+          return
+        }
+        if (text) parts.push(toJavaString(text))
+        parts.push(part.param)
+        text = ''
+      })
+      text += suffix
+      if (text) parts.push(toJavaString(text))
+      return parts.join(' + ')
+    }
+
+    const javaKeywords = new Set([
+      'abstract', 'assert', 'boolean', 'break', 'byte', 'case', 'catch', 'char',
+      'class', 'const', 'continue', 'default', 'do', 'double', 'else', 'enum',
+      'extends', 'final', 'finally', 'float', 'for', 'goto', 'if', 'implements',
+      'import', 'instanceof', 'int', 'interface', 'long', 'native', 'new',
+      'package', 'private', 'protected', 'public', 'return', 'short', 'static',
+      'strictfp', 'super', 'switch', 'synchronized', 'this', 'throw', 'throws',
+      'transient', 'try', 'void', 'volatile', 'while'
+    ])
+
+    // WebDriver strategy of a locator, the one each framework has a native
+    // locator for: id, name, class name, CSS or XPath. WebdriverIO also finds
+    // elements by their accessible name
+    const toWebDriverStrategy = (
+      info: (typeof groupedLocators)[string][string],
+      target: WebDriverTarget
+    ): { kind: 'id' | 'name' | 'className' | 'aria' | 'css' | 'xpath'; value: string } => {
+      const accessibility = info.accessibility
+      if (
+        target === 'webdriverio' &&
+        accessibility?.unique &&
+        accessibility.name &&
+        ['role', 'class', 'xpath'].includes(info.type)
+      ) {
+        return { kind: 'aria', value: accessibility.name }
+      }
+
+      switch (info.type) {
+        case 'id':
+          return { kind: 'id', value: info.rawValue }
+        case 'name':
+          return { kind: 'name', value: info.rawValue }
+        case 'aria-label':
+          return { kind: 'aria', value: info.rawValue }
+        case 'class': {
+          const classes = info.rawValue.trim().split(/\s+/)
+          return classes.length === 1
+            ? { kind: 'className', value: classes[0] }
+            : { kind: 'css', value: classes.map((name) => `.${toCssIdentifier(name)}`).join('') }
+        }
+        case 'xpath':
+          return { kind: 'xpath', value: info.selector }
+        default:
+          return {
+            kind: 'css',
+            value: toCssAttributeSelector(toSelectorAttribute(info), info.rawValue)
+          }
+      }
+    }
+
+    // Locator source of a strategy in a WebDriver target. WebdriverIO takes
+    // selector strings; `aria/` finds by accessible name and a leading `/`
+    // marks an XPath
+    const generateWebDriverLocator = (
+      target: WebDriverTarget,
+      strategy: ReturnType<typeof toWebDriverStrategy>,
+      source?: string // Selector source that replaces the strategy's value
+    ) => {
+      const value =
+        source ??
+        (target === 'selenium-java'
+          ? toJavaString(strategy.value)
+          : toStringLiteral(strategy.value))
+
+      if (target === 'webdriverio') {
+        switch (strategy.kind) {
+          case 'id':
+            return `$(${toStringLiteral(`#${toCssIdentifier(strategy.value)}`)})`
+          case 'name':
+            return `$(${toStringLiteral(toCssAttributeSelector('name', strategy.value))})`
+          case 'className':
+            return `$(${toStringLiteral(`.${toCssIdentifier(strategy.value)}`)})`
+          case 'aria':
+            return `$(${toStringLiteral(`aria/${strategy.value}`)})`
+          default:
+            return `$(${value})`
+        }
+      }
+
+      const css = target === 'selenium-java' ? 'cssSelector' : 'css'
+      switch (strategy.kind) {
+        case 'id':
+          return `By.id(${value})`
+        case 'name':
+          return `By.name(${value})`
+        case 'className':
+          return `By.className(${value})`
+        case 'xpath':
+          return `By.xpath(${value})`
+        case 'aria': {
+          const selector = toCssAttributeSelector('aria-label', strategy.value)
+          return `By.${css}(${
+            target === 'selenium-java' ? toJavaString(selector) : toStringLiteral(selector)
+          })`
+        }
+        default:
+          return `By.${css}(${value})`
+      }
+    }
+
+    // WebdriverIO and Selenium Page Object classes, with the same split and
+    // comments as the Playwright ones. Templated values get a method per
+    // instance, repeated elements one for every instance and, with Selenium,
+    // conditional elements a presence check
+    const generateWebDriverPageObjects = (
+      target: WebDriverTarget,
+      locators: typeof groupedLocators,
+      includeWarnings = false
+    ) => {
+      const java = target === 'selenium-java'
+
+      return Object.entries(locators).map(([file, locatorSet]) => {
+        const pageClassName = toPageClassName(file)
+        const className = java
+          ? pageClassName.charAt(0).toUpperCase() + pageClassName.slice(1)
+          : pageClassName
+        // Translated values follow the Page Object's locale; Java classes use
+        // the default locale's values
+        const localized = !java && isLocalized(locatorSet)
+        const memberNames = new Set<string>()
+        // Names must be identifiers: no leading digit, no Java keyword
+        const claimName = (name: string) => {
+          const baseName = /^\d/.test(name)
+            ? `element${name}`
+            : java && javaKeywords.has(name)
+              ? `${name}Element`
+              : name
+          let claimed = baseName
+          for (let index = 2; memberNames.has(claimed); index++) {
+            claimed = `${baseName}${index}`
+          }
+          memberNames.add(claimed)
+          return toMemberName(claimed)
+        }
+        const fields: string[] = []
+        const members: string[] = []
+
+        Object.entries(locatorSet).forEach(([key, info]) => {
+          const propertyName = toPropertyName(key)
+          const baseName =
+            propertyName.replace(/(Dynamic)?(Conditional)?$/, '') || propertyName
+          const comment = `${java ? '    ' : '  '}// ${describeLocator(info)}${
+            includeWarnings && info.warning
+              ? `\n${java ? '    ' : '  '}// WARNING: ${info.warning}`
+              : ''
+          }`
+
+          // Templated values match any instance through their selector
+          const template = info.valueTemplate
+          const translation = info.translation
+          const strategy: ReturnType<typeof toWebDriverStrategy> = template
+            ? { kind: info.type === 'xpath' ? 'xpath' : 'css', value: info.selector }
+            : toWebDriverStrategy(info, target)
+          const localizedSource =
+            localized && translation && Object.keys(translation.selectors).length > 0
+              ? toLocaleSelector(translation.selectors, 'this.locale')
+              : undefined
+          const locator = generateWebDriverLocator(
+            target,
+            localizedSource ? { kind: info.type === 'xpath' ? 'xpath' : 'css', value: '' } : strategy,
+            localizedSource
+          )
+
+          const name = claimName(propertyName)
+          const instances = info.isDynamic ? claimName(`${baseName}All`) : undefined
+          const presence =
+            info.isConditional && target !== 'webdriverio'
+              ? claimName(`is${baseName.charAt(0).toUpperCase()}${baseName.slice(1)}Present`)
+              : undefined
+
+          let instanceMethod: { name: string; params: string[]; locator: string } | undefined
+          if (template && info.type !== 'xpath') {
+            const attribute = toSelectorAttribute(info)
+            instanceMethod = {
+              name: claimName(
+                memberNames.has(baseName)
+                  ? `${baseName}By${template.params
+                    .map((param) => param.charAt(0).toUpperCase() + param.slice(1))
+                    .join('And')}`
+                  : baseName
+              ),
+              params: template.params,
+              locator: generateWebDriverLocator(
+                target,
+                strategy,
+                java
+                  ? toJavaConcatenation(template, `[${attribute}="`, '"]')
+                  : toLocalizedTemplate(
+                    localized ? info : {},
+                    template,
+                    (localeTemplate) =>
+                      toTemplateLiteral(localeTemplate, `[${attribute}="`, '"]'),
+                    'this.locale'
+                  )
+              )
+            }
+          }
+
+          if (target === 'webdriverio') {
+            members.push(`${comment}\n  get ${name}() {\n    return ${locator};\n  }`)
+            if (instances) {
+              members.push(
+                `${comment}\n  get ${instances}() {\n    return $${locator};\n  }`
+              )
+            }
+            if (instanceMethod) {
+              const params = instanceMethod.params.map((param) => `${param}: string`).join(', ')
+              members.push(
+                `${comment}\n  ${instanceMethod.name}(${params}) {\n    return ${instanceMethod.locator};\n  }`
+              )
+            }
+            return
+          }
+
+          if (target === 'selenium-ts') {
+            members.push(
+              `${comment}\n  get ${name}() {\n    return this.driver.findElement(${locator});\n  }`
+            )
+            if (instances) {
+              members.push(
+                `${comment}\n  get ${instances}() {\n    return this.driver.findElements(${locator});\n  }`
+              )
+            }
+            if (presence) {
+              members.push(
+                `${comment}\n  async ${presence}() {\n    return (await this.driver.findElements(${locator})).length > 0;\n  }`
+              )
+            }
+            if (instanceMethod) {
+              const params = instanceMethod.params.map((param) => `${param}: string`).join(', ')
+              members.push(
+                `${comment}\n  ${instanceMethod.name}(${params}) {\n    return this.driver.findElement(${instanceMethod.locator});\n  }`
+              )
+            }
+            return
+          }
+
+          // Java: a By constant per locator, and methods finding it
+          const constant = name
+            .replace(/([a-z0-9])([A-Z])/g, '$1_$2')
+            .replace(/([A-Z])([A-Z][a-z])/g, '$1_$2')
+            .toUpperCase()
+          fields.push(`${comment}\n    public static final By ${constant} = ${locator};`)
+          members.push(
+            `    public WebElement ${name}() {\n        return driver.findElement(${constant});\n    }`
+          )
+          if (instances) {
+            members.push(
+              `    public List<WebElement> ${instances}() {\n        return driver.findElements(${constant});\n    }`
+            )
+          }
+          if (presence) {
+            members.push(
+              `    public boolean ${presence}() {\n        return !driver.findElements(${constant}).isEmpty();\n    }`
+            )
+          }
+          if (instanceMethod) {
+            const params = instanceMethod.params.map((param) => `String ${param}`).join(', ')
+            members.push(
+              `${comment}\n    public WebElement ${instanceMethod.name}(${params}) {\n        return driver.findElement(${instanceMethod.locator});\n    }`
+            )
+          }
+        })
+
+        const classComment = includeWarnings
+          ? '// FRAGILE LOCATORS - Consider improving these with stable test attributes'
+          : '// ROBUST PAGE OBJECT MODEL - Recommended for E2E testing'
+        const dynamicWarning = Object.values(locatorSet).some(
+          (info) => info.isDynamic || info.isConditional
+        )
+          ? '\n// NOTE: Some locators are marked as DYNAMIC or CONDITIONAL - test carefully for element presence'
+          : ''
+        const header = `${classComment}${dynamicWarning}\n// File: ${file}`
+
+        if (java) {
+          return `    ${header.replace(/\n/g, '\n    ')}\n    public static class ${className} {\n${fields
+            .map((field) => `    ${field.replace(/\n/g, '\n    ')}`)
+            .join('\n\n')}\n\n        private final WebDriver driver;\n\n        public ${className}(WebDriver driver) {\n            this.driver = driver;\n        }\n\n${members
+            .map((member) => `    ${member.replace(/\n/g, '\n    ')}`)
+            .join('\n\n')}\n    }`
+        }
+
+        const constructorParams = [
+          target === 'selenium-ts' ? 'readonly driver: WebDriver' : '',
+          localized ? 'readonly locale: Locale = defaultLocale' : ''
+        ]
+          .filter(Boolean)
+          .join(', ')
+        const constructor = constructorParams
+          ? `\n  constructor(${constructorParams}) {}\n`
+          : ''
+        return `${header}\n\nexport class ${className} {${constructor}\n${members.join('\n\n')}\n}`
+      })
+    }
+
+    // A generated file of WebdriverIO or Selenium Page Objects
+    const generateWebDriverModule = (
+      target: WebDriverTarget,
+      locators: typeof groupedLocators,
+      includeWarnings: boolean
+    ) => {
+      const classes = generateWebDriverPageObjects(target, locators, includeWarnings)
+      const title = includeWarnings
+        ? 'FRAGILE LOCATOR CLASSES - NEEDS IMPROVEMENT'
+        : 'ROBUST PAGE OBJECT MODEL CLASSES'
+      const framework = {
+        webdriverio: 'WebdriverIO',
+        'selenium-ts': 'Selenium WebDriver (selenium-webdriver)',
+        'selenium-java': 'Selenium WebDriver (Java)'
+      }[target]
+      const intro = `// ${title} - ${framework}
+// ${includeWarnings ? 'These locators lack stable test attributes and may break easily' : 'These locators use stable test attributes and are recommended for E2E testing'}
+// NOTE: DYNAMIC elements may be repeated, CONDITIONAL elements may not always be present`
+
+      if (target === 'selenium-java') {
+        const outerClass = includeWarnings ? 'FragileLocators' : 'PageObjects'
+        return `${intro}
+// Add the package of your test sources; use a class as ${outerClass}.<Class>
+
+import java.util.List;
+
+import org.openqa.selenium.By;
+import org.openqa.selenium.WebDriver;
+import org.openqa.selenium.WebElement;
+
+public final class ${outerClass} {
+    private ${outerClass}() {
+    }
+
+${classes.join('\n\n')}
+}
+`
+      }
+
+      const imports = [
+        target === 'selenium-ts'
+          ? "import { By, type WebDriver } from 'selenium-webdriver';\n"
+          : '',
+        Object.values(locators).some(isLocalized)
+          ? "import { defaultLocale, type Locale } from './messages';\n"
+          : ''
+      ].join('')
+      return `${intro}${target === 'webdriverio' ? '\n// Check CONDITIONAL elements with isExisting()' : ''}
+
+${imports}${imports ? '\n' : ''}${classes.join('\n\n')}
+`
+    }
+
+    // Element interfaces `wrapper.find<T>()` is typed with, by tag
+    const htmlElementTags = new Set([
+      'a', 'abbr', 'address', 'area', 'article', 'aside', 'audio', 'b', 'base',
+      'bdi', 'bdo', 'blockquote', 'body', 'br', 'button', 'canvas', 'caption',
+      'cite', 'code', 'col', 'colgroup', 'data', 'datalist', 'dd', 'del',
+      'details', 'dfn', 'dialog', 'div', 'dl', 'dt', 'em', 'embed', 'fieldset',
+      'figcaption', 'figure', 'footer', 'form', 'h1', 'h2', 'h3', 'h4', 'h5',
+      'h6', 'head', 'header', 'hgroup', 'hr', 'html', 'i', 'iframe', 'img',
+      'input', 'ins', 'kbd', 'label', 'legend', 'li', 'link', 'main', 'map',
+      'mark', 'menu', 'meta', 'meter', 'nav', 'noscript', 'object', 'ol',
+      'optgroup', 'option', 'output', 'p', 'picture', 'pre', 'progress', 'q',
+      'rp', 'rt', 'ruby', 's', 'samp', 'script', 'search', 'section', 'select',
+      'slot', 'small', 'source', 'span', 'strong', 'style', 'sub', 'summary',
+      'sup', 'table', 'tbody', 'td', 'template', 'textarea', 'tfoot', 'th',
+      'thead', 'time', 'title', 'tr', 'track', 'u', 'ul', 'var', 'video', 'wbr'
+    ])
+
+    // Vue Testing Library query for a locator, the way Testing Library
+    // recommends: role and name, label, placeholder, then test id. Undefined
+    // for locators only a selector can express
+    const generateTestingLibraryQuery = (
+      info: (typeof groupedLocators)[string][string],
+      instance?: string // Template literal of one instance of a templated value
+    ) => {
+      const { accessibility, valueTemplate } = info
+      if (accessibility?.unique && accessibility.name && !valueTemplate) {
+        const level =
+          accessibility.role === 'heading' && accessibility.level
+            ? `, level: ${accessibility.level}`
+            : ''
+        return `ByRole(${toStringLiteral(accessibility.role)}, { name: ${toStringLiteral(accessibility.name)}${level} })`
+      }
+      if (info.label) return `ByLabelText(${toStringLiteral(info.label.text)})`
+
+      const value = valueTemplate
+        ? instance ?? toTemplateRegex(valueTemplate)
+        : toStringLiteral(info.rawValue)
+      switch (info.type) {
+        case 'aria-label':
+          return `ByLabelText(${value})`
+        case 'placeholder':
+          return `ByPlaceholderText(${value})`
+        case 'data-testid':
+          // Testing Library's default test id attribute
+          return toSelectorAttribute(info) === 'data-testid'
+            ? `ByTestId(${value})`
+            : undefined
+        default:
+          return undefined
+      }
+    }
+
+    // One module of component test helpers per SFC: @vue/test-utils finders
+    // on a mounted wrapper and Vue Testing Library queries within a
+    // container, from the same locators as the Page Objects
+    const generateComponentQueries = (
+      file: string,
+      locatorSet: (typeof groupedLocators)[string]
+    ) => {
+      const names = new Set<string>()
+      const claimName = (name: string) => {
+        let claimed = name
+        for (let index = 2; names.has(claimed); index++) {
+          claimed = `${name}${index}`
+        }
+        names.add(claimed)
+        return claimed
+      }
+      const exportHelper = (name: string, params: string, body: string) =>
+        `export const ${claimName(name)} = (${params}) =>\n  ${body};`
+      const toPascalCase = (name: string) =>
+        name.charAt(0).toUpperCase() + name.slice(1)
+
+      const helpers: string[] = []
+      let teleported = false
+
+      Object.entries(locatorSet).forEach(([key, info]) => {
+        const propertyName = toPropertyName(key)
+        const baseName = toPascalCase(
+          propertyName.replace(/(Dynamic)?(Conditional)?$/, '') || propertyName
+        )
+        const comment = `// ${describeLocator(info)}`
+        const sources: string[] = []
+        const elementType =
+          info.element && htmlElementTags.has(info.element)
+            ? `HTMLElementTagNameMap['${info.element}']`
+            : 'Element'
+        const template = info.valueTemplate
+        const repeated = info.isDynamic || Boolean(template)
+        if (info.teleport) teleported = true
+
+        // @vue/test-utils finders take CSS selectors
+        if (info.type !== 'xpath') {
+          const selector = toStringLiteral(info.selector)
+          if (!template) {
+            sources.push(
+              exportHelper(
+                `find${baseName}`,
+                'wrapper: VueWrapper',
+                `wrapper.find<${elementType}>(${selector})`
+              )
+            )
+          }
+          if (repeated) {
+            sources.push(
+              exportHelper(
+                `findAll${baseName}`,
+                'wrapper: VueWrapper',
+                `wrapper.findAll<${elementType}>(${selector})`
+              )
+            )
+          }
+          if (template) {
+            const attribute = toSelectorAttribute(info)
+            const params = template.params.map((param) => `, ${param}: string`).join('')
+            const instanceSelector = toTemplateLiteral(template, `[${attribute}="`, '"]')
+            sources.push(
+              exportHelper(
+                `find${baseName}`,
+                `wrapper: VueWrapper${params}`,
+                `wrapper.find<${elementType}>(${instanceSelector})`
+              )
+            )
+          }
+        }
+
+        // Testing Library queries throw when nothing or more than one element
+        // matches; repeated elements get getAllBy
+        const query = generateTestingLibraryQuery(info)
+        if (query) {
+          const container = 'container: HTMLElement = document.body'
+          if (!template) {
+            sources.push(
+              exportHelper(`get${baseName}`, container, `within(container).get${query}`)
+            )
+          }
+          if (repeated) {
+            sources.push(
+              exportHelper(`getAll${baseName}`, container, `within(container).getAll${query}`)
+            )
+          }
+          const instanceQuery =
+            template &&
+            generateTestingLibraryQuery(info, toTemplateLiteral(template))
+          if (template && instanceQuery) {
+            const params = template.params.map((param) => `${param}: string, `).join('')
+            sources.push(
+              exportHelper(
+                `get${baseName}`,
+                `${params}${container}`,
+                `within(container).get${instanceQuery}`
+              )
+            )
+          }
+        }
+
+        if (sources.length > 0) helpers.push(`${comment}\n${sources.join('\n')}`)
       })
+
+      // Child components, by name, for findComponent
+      const components = [
+        ...new Set([
+          ...(componentUsages[file] || []).map((used) =>
+            path.basename(used).replace(/\.\w+$/, '')
+          ),
+          ...Object.values(locatorSet).flatMap((info) =>
+            info.resolvedComponent ? [info.resolvedComponent.name] : []
+          )
+        ])
+      ]
+      const componentFinders = components.map((name) => {
+        const functionName = `find${name
+          .split(/[^a-zA-Z0-9]+/)
+          .filter(Boolean)
+          .map(toPascalCase)
+          .join('')}Component`
+        return `// <${name}> rendered by ${file}\n${exportHelper(
+          functionName,
+          'wrapper: VueWrapper',
+          `wrapper.findComponent({ name: ${toStringLiteral(name)} })`
+        )}`
+      })
+
+      const teleportNote = teleported
+        ? [
+          '',
+          '// NOTE: Teleported elements are only inside the wrapper when mounted with',
+          '// { global: { stubs: { teleport: true } } }; Testing Library finds them in document.body'
+        ].join('\n')
+        : ''
+      return `// COMPONENT TEST QUERIES - ${file}
+// Finders for @vue/test-utils wrappers and Vue Testing Library queries, from
+// the same locators as the Page Objects
+// NOTE: DYNAMIC elements may be repeated, CONDITIONAL elements may not always be present${teleportNote}
+
+import type { VueWrapper } from '@vue/test-utils';
+import { within } from '@testing-library/vue';
+
+${[...helpers, ...componentFinders].join('\n\n')}
+`
     }
 
     // Generate main locator map (includes all locators with robustness info)
     const generateMainLocatorMap = (allLocators: typeof groupedLocators) => {
       const tsLines = Object.entries(allLocators).map(([file, locatorSet]) => {
-        const className = file
-          .replace(/[\/\\]/g, '_')
-          .replace(/\.(vue|html|js|ts)$/, '')
-          .replace(/[^a-zA-Z0-9_]/g, '_')
-          .replace(/^_+|_+$/g, '')
+        const className = pageClassBaseNames.get(file)
 
         const locatorEntries = Object.entries(locatorSet).map(([key, info]) => {
           let comment = `    // ${info.element} - ${info.type}: "${info.rawValue}" (${info.robustness})`
@@ -254,8 +1799,15 @@ const vueProjectPath = process.argv[2] || './test-vue-src';
             comment += ' - CONDITIONAL'
           }
 
-          const escapedSelector = info.selector.replace(/'/g, "\\'")
-          return `${comment}\n    ${key}: '${escapedSelector}'`
+          if (info.teleport) {
+            comment += ` - TELEPORTED to ${info.teleport.selector ?? 'page'}`
+          }
+
+          if (info.location) {
+            comment += ` - ${formatLocation(info.location)}`
+          }
+
+          return `${comment}\n    ${key}: ${toStringLiteral(info.selector)}`
         })
 
         return `  // Page Object for: ${file}\n  ${className}: {\n${locatorEntries.join(
@@ -271,11 +1823,7 @@ const vueProjectPath = process.argv[2] || './test-vue-src';
     // Generate fragile-only locator map for improvement tracking
     const generateFragileLocatorMap = (locators: typeof groupedLocators) => {
       const tsLines = Object.entries(locators).map(([file, locatorSet]) => {
-        const className = file
-          .replace(/[\/\\]/g, '_')
-          .replace(/\.(vue|html|js|ts)$/, '')
-          .replace(/[^a-zA-Z0-9_]/g, '_')
-          .replace(/^_+|_+$/g, '')
+        const className = pageClassBaseNames.get(file)
 
         const locatorEntries = Object.entries(locatorSet).map(([key, info]) => {
           let comment = `    // ${info.element} - ${info.type}: "${info.rawValue}" (NEEDS IMPROVEMENT)`
@@ -288,8 +1836,11 @@ const vueProjectPath = process.argv[2] || './test-vue-src';
             comment += ' - CONDITIONAL'
           }
 
-          const escapedSelector = info.selector.replace(/'/g, "\\'")
-          return `${comment}\n    ${key}: '${escapedSelector}'`
+          if (info.location) {
+            comment += ` - ${formatLocation(info.location)}`
+          }
+
+          return `${comment}\n    ${key}: ${toStringLiteral(info.selector)}`
         })
 
         return `  // Fragile locators for: ${file}\n  ${className}: {\n${locatorEntries.join(
@@ -302,32 +1853,359 @@ const vueProjectPath = process.argv[2] || './test-vue-src';
       )}\n};\n`
     }
 
-    // Generate outputs
-    const robustPageObjects = generatePageObjectClasses(robustLocators, false)
-    const fragilePageObjects = generatePageObjectClasses(fragileLocators, true)
+    // Generate one Page Object per route, composed of the robust Page Objects
+    // of its layouts, its components and the components they render
+    const generateRouteClasses = () => {
+      const classNames = new Set<string>()
+
+      return routes.map((route) => {
+        const baseName = (route.name || route.path)
+          .split(/[^a-zA-Z0-9]+/)
+          .filter(Boolean)
+          .map((word) => word.charAt(0).toUpperCase() + word.slice(1))
+          .join('')
+          .replace(/^(\d)/, '_$1')
+        let className = `${baseName || 'Home'}RoutePage`
+        for (let index = 2; classNames.has(className); index++) {
+          className = `${baseName || 'Home'}RoutePage${index}`
+        }
+        classNames.add(className)
+
+        // Walk the component tree breadth-first, outermost layout first
+        const files: string[] = []
+        const queue = [...route.layouts, ...route.components]
+        while (queue.length > 0) {
+          const file = queue.shift() as string
+          if (files.includes(file)) continue
+          files.push(file)
+          queue.push(...(componentUsages[file] || []))
+        }
+
+        const memberNames = new Set<string>()
+        const members = files
+          .filter((file) => robustLocators[file])
+          .map((file) => {
+            const baseMember = path
+              .basename(file)
+              .replace(/\.\w+$/, '')
+              .replace(/[^a-zA-Z0-9]+(\w)/g, (_, letter: string) =>
+                letter.toUpperCase()
+              )
+              .replace(/^\w/, (letter) => letter.toLowerCase())
+            let member = baseMember
+            for (let index = 2; memberNames.has(member); index++) {
+              member = `${baseMember}${index}`
+            }
+            memberNames.add(member)
+            return {
+              file,
+              member: toMemberName(member),
+              pageClass: toPageClassName(file),
+              localized: isLocalized(robustLocators[file])
+            }
+          })
+        const localized = members.some((member) => member.localized)
+
+        const nameLine = route.name
+          ? `\n  static readonly routeName = ${toStringLiteral(route.name)};`
+          : ''
+        const declarations = members
+          .map(
+            ({ file, member, pageClass }) =>
+              `  // ${file}\n  readonly ${member}: ${pageClass};`
+          )
+          .join('\n')
+        const initializations = members
+          .map(
+            ({ member, pageClass, localized }) =>
+              `    this.${member} = new ${pageClass}(page${localized ? ', locale' : ''});`
+          )
+          .join('\n')
+        const constructorParams = localized
+          ? 'readonly page: Page, locale: Locale = defaultLocale'
+          : 'readonly page: Page'
+
+        return {
+          route,
+          className,
+          imports: members.map(({ pageClass }) => pageClass),
+          localized,
+          source: `// Route: ${route.path} (${route.file})\nexport class ${className} {\n  static readonly path = ${toStringLiteral(route.path)};${nameLine}\n\n${declarations}\n\n  constructor(${constructorParams}) {\n${initializations}\n  }\n\n  async goto() {\n    await this.page.goto(${className}.path);\n  }\n}`
+        }
+      })
+    }
+
+    // Module of route Page Objects; the per-file layout writes one per route,
+    // importing from the output directory above it
+    const generateRoutePageObjects = (
+      classes = generateRouteClasses(),
+      modules = { pageObjects: './pageObjects', messages: './messages' }
+    ) => {
+      const imports = [...new Set(classes.flatMap(({ imports }) => imports))]
+      return `// ROUTE PAGE OBJECTS
+// One class per vue-router route, composed of the Page Objects of the route's
+// components and the components they render
+// NOTE: Dynamic segments (:id) in a path must be filled in before goto()
+
+import { Page } from '@playwright/test';
+${classes.some(({ localized }) => localized) ? `import { defaultLocale, type Locale } from '${modules.messages}';\n` : ''}${imports.length > 0 ? `import {\n${imports.map((name) => `  ${name}`).join(',\n')}\n} from '${modules.pageObjects}';\n` : ''}
+${classes.map(({ source }) => source).join('\n\n')}
+`
+    }
+
+    // Messages of every translated locator, per locale, for locale-aware
+    // Page Objects
+    const generateMessagesModule = () => {
+      const messages: Record<string, Record<string, string>> = {}
+      for (const locale of i18n.locales) messages[locale] = {}
+      Object.values(groupedLocators).forEach((locatorSet) => {
+        Object.values(locatorSet).forEach((info) => {
+          if (!generateLocalizedLocator(info) || !info.translation) return
+          for (const [locale, value] of Object.entries(info.translation.values)) {
+            messages[locale][info.translation.key] = value
+          }
+        })
+      })
+
+      const localeEntries = Object.entries(messages).map(
+        ([locale, entries]) =>
+          `  ${toStringLiteral(locale)}: {\n${Object.entries(entries)
+            .sort(([a], [b]) => a.localeCompare(b))
+            .map(
+              ([key, value]) =>
+                `    ${toStringLiteral(key)}: ${toStringLiteral(value)}`
+            )
+            .join(',\n')}\n  }`
+      )
+
+      return `// LOCALIZED MESSAGES
+// vue-i18n messages behind translated locators, so Page Objects can be built
+// for any configured locale: new LoginPage(page, 'de')
+
+export type Locale = ${i18n.locales.map(toStringLiteral).join(' | ')};
+
+export const defaultLocale: Locale = ${toStringLiteral(i18n.locale || i18n.locales[0])};
+
+export const messages: Record<Locale, Record<string, string>> = {
+${localeEntries.join(',\n')}
+};
+`
+    }
+
+    // index.ts re-exporting every module of a per-file output directory
+    const generateBarrel = (title: string, modules: string[]) =>
+      `// ${title}
+// Re-exports every generated module of this directory
+
+${modules.length > 0 ? modules.map((module) => `export * from './${module}';`).join('\n') : 'export {};'}
+`
+
+    // Write the selected output formats, recording in the manifest which
+    // source files each file was generated from
+    const hasTranslations = Object.values(groupedLocators).some(isLocalized)
+    const generatedFiles: string[] = []
+    const removedFiles: string[] = []
+    const manifest = createOutputManifest(options.layout)
+    const writeOutput = async (
+      format: OutputFormat,
+      description: string,
+      render: () => string,
+      fileName = outputFiles[format],
+      sources: string[] = []
+    ) => {
+      if (!options.formats.includes(format)) return
+      const file = path.join(options.outDir, fileName)
+      await fs.outputFile(file, render())
+      generatedFiles.push(`${file} - ${description}`)
+      sources.forEach((source) =>
+        addGeneratedFile(manifest, toSourceFile(source), {
+          file: toPosix(fileName),
+          format
+        })
+      )
+    }
 
-    const mainLocatorMap = generateMainLocatorMap(groupedLocators)
-    const fragileLocatorMap = generateFragileLocatorMap(fragileLocators)
+    // Page Objects of each source file as a module of a tree mirroring the
+    // project, e.g. pageObjects/components/loginForm.ts
+    const writePageObjectModules = async (
+      format: 'pageObjects' | 'fragileLocators',
+      description: string,
+      locators: typeof groupedLocators,
+      includeWarnings: boolean
+    ) => {
+      if (!options.formats.includes(format)) return
+      const dir = outputFiles[format].replace(/\.ts$/, '')
+      const toModule = (file: string) => `${dir}/${modulePaths.get(file)}`
+      const classes = generatePageObjectClasses(locators, includeWarnings)
+      const files = Object.keys(locators)
+      for (const [index, file] of files.entries()) {
+        const imports = generatePageObjectImports(
+          { [file]: locators[file] },
+          toRelativeImport(toModule(file), 'messages')
+        )
+        await writeOutput(
+          format,
+          `${description} for ${file}`,
+          () => `${imports}${classes[index]}\n`,
+          `${toModule(file)}.ts`,
+          [file]
+        )
+      }
+    }
 
-    // Write robust page objects (recommended for production use)
-    const robustOutput = `// ROBUST PAGE OBJECT MODEL CLASSES
+    // index.ts of a per-file output directory, re-exporting every module the
+    // manifest lists in it, including those a partial run left in place, in
+    // path order so partial runs keep it stable
+    const writeBarrel = async (
+      format: 'pageObjects' | 'fragileLocators' | 'routePageObjects',
+      title: string,
+      description: string
+    ) => {
+      const dir = outputFiles[format].replace(/\.ts$/, '')
+      const barrel = `${dir}/index.ts`
+      const modules = Object.entries(manifest.sources).flatMap(([source, files]) =>
+        files
+          .filter(
+            ({ file }) => file.startsWith(`${dir}/`) && file !== barrel
+          )
+          .map(({ file }) => ({ source, module: file.slice(dir.length + 1, -'.ts'.length) }))
+      )
+      if (modules.length === 0) return
+      await writeOutput(
+        format,
+        description,
+        () => generateBarrel(title, modules.map(({ module }) => module).sort()),
+        barrel,
+        [...new Set(modules.map(({ source }) => source))]
+      )
+    }
+
+    if (command === 'generate' && options.target === 'cypress') {
+      // Cypress Page Objects and the custom commands they use, with the
+      // same robust/fragile split
+      await writeOutput('pageObjects', 'Robust Cypress Page Object classes', () => {
+        const robustPageObjects = generateCypressPageObjects(robustLocators, false)
+        return `// ROBUST CYPRESS PAGE OBJECT CLASSES
+// These locators use stable test attributes and are recommended for E2E testing
+// NOTE: DYNAMIC elements may be repeated, CONDITIONAL elements may not always be present
+//
+// CYPRESS CONFIGURATION NOTE:
+// Role and label queries need @testing-library/cypress, XPaths and IfPresent
+// helpers the commands in cypressCommands.ts
+
+${generateCypressImports(robustLocators)}${robustPageObjects.join('\n\n')}
+`
+      }, undefined, Object.keys(robustLocators))
+      await writeOutput('fragileLocators', 'Fragile Cypress locators needing improvement', () => {
+        const fragilePageObjects = generateCypressPageObjects(fragileLocators, true)
+        return `// FRAGILE CYPRESS LOCATOR CLASSES - NEEDS IMPROVEMENT
+// These locators lack stable test attributes and may break easily
+// Consider adding data-testid, data-test, or id attributes to improve robustness
+
+${generateCypressImports(fragileLocators)}${fragilePageObjects.join('\n\n')}
+`
+      }, undefined, Object.keys(fragileLocators))
+      await writeOutput(
+        'cypressCommands',
+        'Cypress custom commands for the Page Objects',
+        generateCypressCommands
+      )
+    }
+
+    if (
+      command === 'generate' &&
+      (options.target === 'webdriverio' || options.target.startsWith('selenium'))
+    ) {
+      // WebdriverIO and Selenium Page Objects, with the same robust/fragile
+      // split; Java classes go to .java files
+      const target = options.target as WebDriverTarget
+      const java = target === 'selenium-java'
+      await writeOutput(
+        'pageObjects',
+        `Robust ${target} Page Object classes`,
+        () => generateWebDriverModule(target, robustLocators, false),
+        java ? 'PageObjects.java' : undefined,
+        Object.keys(robustLocators)
+      )
+      await writeOutput(
+        'fragileLocators',
+        `Fragile ${target} locators needing improvement`,
+        () => generateWebDriverModule(target, fragileLocators, true),
+        java ? 'FragileLocators.java' : undefined,
+        Object.keys(fragileLocators)
+      )
+    }
+
+    if (
+      command === 'generate' &&
+      options.target === 'playwright' &&
+      options.layout === 'per-file'
+    ) {
+      await writePageObjectModules(
+        'pageObjects',
+        'Robust Playwright Page Objects',
+        robustLocators,
+        false
+      )
+      await writePageObjectModules(
+        'fragileLocators',
+        'Fragile Playwright locators',
+        fragileLocators,
+        true
+      )
+
+      // One module per route, importing the classes through their barrel
+      if (routes.length > 0 && options.formats.includes('routePageObjects')) {
+        const dir = outputFiles.routePageObjects.replace(/\.ts$/, '')
+        const routeClasses = generateRouteClasses()
+        for (const routeClass of routeClasses) {
+          const module = `${dir}/${routeClass.className}`
+          await writeOutput(
+            'routePageObjects',
+            `Page Object for route ${routeClass.route.path}`,
+            () =>
+              generateRoutePageObjects([routeClass], {
+                pageObjects: toRelativeImport(module, outputFiles.pageObjects.replace(/\.ts$/, '')),
+                messages: toRelativeImport(module, 'messages')
+              }),
+            `${module}.ts`,
+            [routeClass.route.file]
+          )
+        }
+      }
+    }
+
+    if (
+      command === 'generate' &&
+      options.target === 'playwright' &&
+      options.layout === 'single'
+    ) {
+      // Robust page objects (recommended for production use)
+      await writeOutput('pageObjects', 'Robust Playwright Page Object classes', () => {
+        const robustPageObjects = generatePageObjectClasses(robustLocators, false)
+        return `// ROBUST PAGE OBJECT MODEL CLASSES
 // These locators use stable test attributes and are recommended for E2E testing
 // NOTE: DYNAMIC elements may be repeated, CONDITIONAL elements may not always be present
 // 
 // PLAYWRIGHT CONFIGURATION NOTE:
-// If using data-test-id attributes, configure Playwright to recognize them:
-// In playwright.config.ts: use: { testIdAttribute: 'data-test-id' }
-// (Choose either 'data-testid' or 'data-test-id' as your project standard)
+// getByTestId matches the ${config.testIdAttribute} attribute${config.testIdAttribute === 'data-testid' ? '' : `; in playwright.config.ts:
+// use: { testIdAttribute: '${config.testIdAttribute}' }`}
+// Other test id attributes (${config.testIdAttributes.filter((attribute) => attribute !== config.testIdAttribute).join(', ')})
+// are located by attribute selector; set testIdAttribute in the project config
+// to locate another one with getByTestId
 
-${robustPageObjects.join('\n\n')}`
+${generatePageObjectImports(robustLocators)}${robustPageObjects.join('\n\n')}`
+      }, undefined, Object.keys(robustLocators))
 
-    // Write fragile locators (needs improvement)
-    const fragileOutput = `// FRAGILE LOCATOR CLASSES - NEEDS IMPROVEMENT
+      // Fragile locators (needs improvement)
+      await writeOutput('fragileLocators', 'Fragile locators needing improvement', () => {
+        const fragilePageObjects = generatePageObjectClasses(fragileLocators, true)
+        return `// FRAGILE LOCATOR CLASSES - NEEDS IMPROVEMENT
 // These locators lack stable test attributes and may break easily
 // Consider adding data-testid, data-test, or id attributes to improve robustness
 // NOTE: DYNAMIC elements may be repeated, CONDITIONAL elements may not always be present
 
-${fragilePageObjects.join('\n\n')}
+${generatePageObjectImports(fragileLocators)}${fragilePageObjects.join('\n\n')}
 
 // IMPROVEMENT SUGGESTIONS:
 // 1. Add data-testid attributes to interactive elements
@@ -336,16 +2214,113 @@ ${fragilePageObjects.join('\n\n')}
 // 4. Review the warnings above for specific recommendations
 // 5. For DYNAMIC elements, ensure selectors work with multiple instances
 // 6. For CONDITIONAL elements, add existence checks in tests`
+      }, undefined, Object.keys(fragileLocators))
 
-    await fs.ensureDir('./output')
+      // Route Page Objects compose the Playwright classes
+      if (routes.length > 0) {
+        await writeOutput(
+          'routePageObjects',
+          'Page Objects per vue-router route',
+          () => generateRoutePageObjects(),
+          undefined,
+          [...new Set(routes.map((route) => route.file))]
+        )
+      }
+    }
 
-    // Write Page Object Model files
-    await fs.outputFile('./output/pageObjects.ts', robustOutput)
-    await fs.outputFile('./output/fragileLocators.ts', fragileOutput)
+    if (command === 'generate') {
+      // Locator maps
+      await writeOutput('locatorMap', 'Complete locator map with metadata', () =>
+        generateMainLocatorMap(groupedLocators)
+      )
+      await writeOutput('fragileLocatorMap', 'Improvement tracking map', () =>
+        generateFragileLocatorMap(fragileLocators)
+      )
 
-    // Write locator map files
-    await fs.outputFile('./output/locatorMap.ts', mainLocatorMap)
-    await fs.outputFile('./output/fragileLocatorMap.ts', fragileLocatorMap)
+      // The messages locale-aware Page Objects import
+      if (hasTranslations) {
+        await writeOutput(
+          'messages',
+          'vue-i18n messages for locale-aware Page Objects',
+          generateMessagesModule
+        )
+      }
+
+      // Component test helpers, one module per SFC
+      for (const [file, locatorSet] of Object.entries(groupedLocators)) {
+        if (!file.endsWith('.vue')) continue
+        await writeOutput(
+          'componentQueries',
+          `Component test queries for ${file}`,
+          () => generateComponentQueries(file, locatorSet),
+          path.join(outputFiles.componentQueries, file.replace(/\.vue$/, '.ts')),
+          [file]
+        )
+      }
+
+      // JSON inventory of the whole result, with the schema it follows
+      await writeOutput(
+        'inventory',
+        'Locator inventory as JSON',
+        () => `${JSON.stringify(createInventory(result, absPath), null, 2)}\n`
+      )
+      await writeOutput(
+        'inventory',
+        'JSON Schema of the locator inventory',
+        () => `${JSON.stringify(inventorySchema, null, 2)}\n`,
+        inventorySchemaFile
+      )
+      await writeOutput(
+        'sarif',
+        'Missing test ids and fragile locators as SARIF 2.1.0',
+        () => `${JSON.stringify(createSarifLog(result, absPath), null, 2)}\n`
+      )
+
+      // Files earlier runs generated for deleted sources, or in another
+      // layout, are removed; the manifest records what this run wrote
+      const previousManifest = await readOutputManifest(options.outDir)
+      const staleFiles = previousManifest
+        ? findStaleOutputs(previousManifest, manifest, {
+          baseDir: absPath,
+          formats: options.formats,
+          partial: options.include.length > 0 || options.exclude.length > 0
+        })
+        : []
+
+      if (options.target === 'playwright' && options.layout === 'per-file') {
+        await writeBarrel(
+          'pageObjects',
+          'ROBUST PAGE OBJECT MODEL CLASSES',
+          'Robust Playwright Page Objects, index'
+        )
+        await writeBarrel(
+          'fragileLocators',
+          'FRAGILE LOCATOR CLASSES - NEEDS IMPROVEMENT',
+          'Fragile Playwright locators, index'
+        )
+        await writeBarrel(
+          'routePageObjects',
+          'ROUTE PAGE OBJECTS',
+          'Page Objects per vue-router route, index'
+        )
+      }
+
+      // Barrels are written after the stale files are found, so their own
+      // earlier versions are still current
+      const written = new Set(
+        Object.values(manifest.sources).flatMap((files) => files.map(({ file }) => file))
+      )
+      removedFiles.push(
+        ...(await removeStaleOutputs(
+          options.outDir,
+          staleFiles.filter((file) => !written.has(file))
+        ))
+      )
+
+      const manifestFile = path.join(options.outDir, outputManifestFile)
+      await fs.outputFile(manifestFile, `${JSON.stringify(manifest, null, 2)}\n`)
+      generatedFiles.push(`${manifestFile} - Generated files by source file`)
+    }
 
     // Generate summary report
     const totalLocators = Object.values(groupedLocators).reduce(
@@ -375,71 +2350,115 @@ ${fragilePageObjects.join('\n\n')}
     const robustnessRatio =
       totalLocators > 0 ? Math.round((robustCount / totalLocators) * 100) : 0
 
-    console.log('\n📊 ENHANCED ANALYSIS SUMMARY:')
-    console.log(
+    log('\n📊 ENHANCED ANALYSIS SUMMARY:')
+    log(
       `   📄 Total files processed: ${Object.keys(groupedLocators).length}`
     )
-    console.log(`   🎯 Total locators found: ${totalLocators}`)
-    console.log(`   ✅ Robust locators: ${robustCount} (ready for production)`)
-    console.log(
+    log(`   🎯 Total locators found: ${totalLocators}`)
+    log(`   ✅ Robust locators: ${robustCount} (ready for production)`)
+    log(
       `   🔸 Fragile locators: ${fragileCount} (${warnings.length} with warnings)`
     )
-    console.log(`   🔄 Dynamic locators: ${dynamicCount} (may be repeated)`)
-    console.log(
+    log(`   🔄 Dynamic locators: ${dynamicCount} (may be repeated)`)
+    log(
       `   ❓ Conditional locators: ${conditionalCount} (may not always be present)`
     )
-    console.log(
+    log(
       `   🎪 Custom components: ${customComponentWarnings.length} (need manual review)`
     )
-    console.log(`   📈 Robustness ratio: ${robustnessRatio}%`)
+    log(
+      `   🔑 Key collisions: ${keyCollisions.length} (resolved with unique keys)`
+    )
+    log(`   📈 Robustness ratio: ${robustnessRatio}%`)
+
+    // check: fail on too many fragile locators, a low robustness ratio or
+    // files that could not be extracted
+    if (command === 'check') {
+      const failures = [
+        fragileCount > options.maxFragile &&
+          `${fragileCount} fragile locators (at most ${options.maxFragile} allowed)`,
+        robustnessRatio < options.minRobustness &&
+          `Robustness ratio ${robustnessRatio}% (at least ${options.minRobustness}% required)`,
+        ...diagnostics
+          .filter((diagnostic) => diagnostic.severity === 'error')
+          .map((diagnostic) => diagnostic.message)
+      ].filter((failure): failure is string => Boolean(failure))
+
+      if (failures.length > 0) {
+        console.error('\n❌ CHECK FAILED:')
+        failures.forEach((failure) => console.error(`🔸 ${failure}`))
+        process.exitCode = exitCodes.checkFailed
+      } else {
+        log('\n✅ CHECK PASSED')
+      }
+    }
+
+    // Display files or templates that could not be extracted
+    if (showReport && diagnostics.length > 0) {
+      log('\n❌ EXTRACTION DIAGNOSTICS:')
+      diagnostics.forEach((diagnostic) => {
+        log(`🔸 [${diagnostic.severity}] ${diagnostic.message}`)
+      })
+    }
+
+    // Display key collisions
+    if (showReport && keyCollisions.length > 0) {
+      log('\n🔑 LOCATOR KEY COLLISIONS:')
+      keyCollisions.forEach((collision) => {
+        log(`🔸 ${collision.message}`)
+      })
+    }
 
     // Display warnings
-    if (warnings.length > 0) {
-      console.log('\n⚠️  FRAGILE LOCATOR WARNINGS:')
+    if (showReport && warnings.length > 0) {
+      log('\n⚠️  FRAGILE LOCATOR WARNINGS:')
       warnings.forEach((warning) => {
-        console.log(`🔸 ${warning}`)
+        log(`🔸 ${warning}`)
       })
     }
 
-    console.log('\n✅ Generated files:')
-    console.log(
-      '   📄 output/pageObjects.ts - Robust Playwright Page Object classes'
-    )
-    console.log(
-      '   📄 output/fragileLocators.ts - Fragile locators needing improvement'
-    )
-    console.log(
-      '   📄 output/locatorMap.ts - Complete locator map with metadata'
-    )
-    console.log('   📄 output/fragileLocatorMap.ts - Improvement tracking map')
-
-    console.log('\n�� NEXT STEPS:')
-    console.log(
-      '   1. Review custom component warnings and add test attributes where needed'
-    )
-    console.log('   2. Use robust Page Objects for critical test flows')
-    console.log('   3. Add existence checks for conditional elements in tests')
-    console.log(
-      '   4. Consider dynamic extraction for complex runtime-generated content'
-    )
-    console.log(
-      '   5. Improve fragile locators by adding data-testid attributes'
-    )
+    if (generatedFiles.length > 0) {
+      log('\n✅ Generated files:')
+      generatedFiles.forEach((file) => log(`   📄 ${file}`))
+    }
+    if (removedFiles.length > 0) {
+      log('\n🗑️  Removed stale generated files:')
+      removedFiles.forEach((file) => log(`   📄 ${file}`))
+    }
 
-    if (dynamicCount > 0 || conditionalCount > 0) {
-      console.log('\n⚡ DYNAMIC/CONDITIONAL ELEMENT RECOMMENDATIONS:')
-      console.log(
-        '   • For DYNAMIC elements: Use .nth(index) or .count() in tests'
+    if (showReport) {
+      log('\n�� NEXT STEPS:')
+      log(
+        '   1. Review custom component warnings and add test attributes where needed'
       )
-      console.log(
-        '   • For CONDITIONAL elements: Use .isVisible() checks before interaction'
+      log('   2. Use robust Page Objects for critical test flows')
+      log('   3. Add existence checks for conditional elements in tests')
+      log(
+        '   4. Consider dynamic extraction for complex runtime-generated content'
       )
-      console.log(
-        '   • Consider using .waitFor() methods for elements that appear/disappear'
+      log(
+        '   5. Improve fragile locators by adding data-testid attributes'
       )
+
+      if (dynamicCount > 0 || conditionalCount > 0) {
+        log('\n⚡ DYNAMIC/CONDITIONAL ELEMENT RECOMMENDATIONS:')
+        log(
+          '   • For DYNAMIC elements: Use .nth(index) or .count() in tests'
+        )
+        log(
+          '   • For CONDITIONAL elements: Use .isVisible() checks before interaction'
+        )
+        log(
+          '   • Consider using .waitFor() methods for elements that appear/disappear'
+        )
+      }
     }
   } catch (error) {
+    if (error instanceof ConfigError) {
+      console.error(`❌ ${error.message}`)
+      process.exit(exitCodes.usage)
+    }
     console.error('❌ Error during extraction:', error)
-    process.exit(1)
+    process.exit(exitCodes.error)
   }
 })()
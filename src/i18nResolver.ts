@@ -0,0 +1,438 @@
+import fg from 'fast-glob'
+import fs from 'fs-extra'
+import path from 'path'
+import ts from 'typescript'
+import yaml from 'js-yaml'
+import { listExportedConstants } from './constantResolver'
+
+/**
+ * A `$t('key', { ... })` call: the message key and the source expressions
+ * its placeholders are filled in with
+ */
+export interface TranslationCall {
+  key: string;
+  named: Record<string, string>; // Placeholder → source expression
+  list: string[]; // Positional placeholders, `{0}`, `{1}`, ...
+  count?: string; // Plural choice, for `$tc` and `$t(key, count)`
+}
+
+/**
+ * A translation resolved against the loaded messages
+ */
+export interface ResolvedTranslation {
+  key: string;
+  // Template literal source of the message in the active locale, with
+  // placeholders filled in by their expressions
+  expression: string;
+  // Template literal source per locale, likewise
+  expressions: Record<string, string>;
+  // Message per locale, for messages without placeholders in any locale
+  messages: Record<string, string>;
+}
+
+// Resolves a key expression to a static string (constants), if it has one
+export type StaticKeyResolver = (expression: string) => string | undefined
+
+// Directories message files are conventionally kept in
+const messageDirectories = [
+  'locales',
+  'locale',
+  'i18n',
+  'lang',
+  'langs',
+  'messages',
+  'translations'
+]
+
+// Translation functions of vue-i18n, global (`$t`) and composition (`t`)
+const translationFunctions = new Set(['$t', 't', '$tc', 'tc'])
+
+const localePattern = /^[a-z]{2,3}(?:[-_][A-Za-z0-9]{2,4})?$/
+
+const localeMessages: Map<string, Map<string, string>> = new Map()
+let activeLocale: string | undefined
+// Message files that could not be read, with the reason
+const messageFileErrors: Array<{ file: string; message: string }> = []
+
+/**
+ * Load the project's vue-i18n messages: JSON, YAML, TS and JS files under
+ * `locales/`, `i18n/`, `lang/` and similar directories, one file per locale
+ * or one file keyed by locale. The active locale is `locale`, else the one
+ * passed to `createI18n({ locale })`, else `en`, else the first found
+ */
+export async function resetI18nResolver(
+  baseDir: string,
+  scriptFiles: string[],
+  locale?: string
+): Promise<void> {
+  localeMessages.clear()
+  activeLocale = undefined
+  messageFileErrors.length = 0
+
+  const directories = messageDirectories.join(',')
+  const files = await fg([`**/{${directories}}/**/*.{json,yaml,yml,ts,js}`], {
+    cwd: baseDir,
+    absolute: true,
+    ignore: ['**/node_modules/**', '**/dist/**', '**/.output/**', '**/build/**']
+  })
+
+  for (const file of files.sort()) {
+    loadMessageFile(file)
+  }
+
+  if (localeMessages.size === 0) return
+
+  const configured = locale || findConfiguredLocale(scriptFiles)
+  activeLocale =
+    [configured, 'en'].find((code) => code && localeMessages.has(code)) ||
+    getLocales()[0]
+}
+
+/**
+ * Message files the last load could not read
+ */
+export function getMessageFileErrors(): Array<{ file: string; message: string }> {
+  return [...messageFileErrors]
+}
+
+/**
+ * Whether any message files were loaded
+ */
+export function isI18nEnabled(): boolean {
+  return localeMessages.size > 0
+}
+
+/**
+ * Locales with loaded messages, sorted
+ */
+export function getLocales(): string[] {
+  return [...localeMessages.keys()].sort()
+}
+
+/**
+ * Locale values are resolved in by default
+ */
+export function getActiveLocale(): string | undefined {
+  return activeLocale
+}
+
+/**
+ * Parse `$t('key')`, `t('key', { name })`, `$tc('key', count)` or
+ * `i18n.global.t('key')`. Returns undefined for any other expression
+ */
+export function parseTranslationCall(
+  expression: string,
+  resolveKey?: StaticKeyResolver
+): TranslationCall | undefined {
+  const sourceFile = ts.createSourceFile(
+    'translation.ts',
+    `(${expression})`,
+    ts.ScriptTarget.Latest,
+    true
+  )
+  const statement = sourceFile.statements[0]
+  if (!statement || !ts.isExpressionStatement(statement)) return undefined
+
+  let node = statement.expression
+  while (ts.isParenthesizedExpression(node)) node = node.expression
+  if (!ts.isCallExpression(node)) return undefined
+
+  const callee = node.expression
+  const name = ts.isIdentifier(callee)
+    ? callee.text
+    : ts.isPropertyAccessExpression(callee)
+      ? callee.name.text
+      : undefined
+  if (!name || !translationFunctions.has(name)) return undefined
+
+  const [keyArg, ...rest] = node.arguments
+  if (!keyArg) return undefined
+  const key =
+    ts.isStringLiteral(keyArg) || ts.isNoSubstitutionTemplateLiteral(keyArg)
+      ? keyArg.text
+      : resolveKey?.(keyArg.getText(sourceFile))
+  if (key === undefined) return undefined
+
+  const call: TranslationCall = { key, named: {}, list: [] }
+  for (const arg of rest) {
+    if (ts.isObjectLiteralExpression(arg)) {
+      for (const property of arg.properties) {
+        if (ts.isPropertyAssignment(property)) {
+          const propertyName = getPropertyName(property.name)
+          if (propertyName) {
+            call.named[propertyName] = property.initializer.getText(sourceFile)
+          }
+        } else if (ts.isShorthandPropertyAssignment(property)) {
+          call.named[property.name.text] = property.name.text
+        }
+      }
+    } else if (ts.isArrayLiteralExpression(arg)) {
+      call.list = arg.elements.map((element) => element.getText(sourceFile))
+    } else if (call.count === undefined) {
+      call.count = arg.getText(sourceFile)
+    }
+  }
+
+  return call
+}
+
+/**
+ * Resolve a translation expression, such as `$t('login.submit')`, against
+ * the loaded messages
+ */
+export function resolveTranslation(
+  expression: string,
+  resolveKey?: StaticKeyResolver
+): ResolvedTranslation | undefined {
+  if (!activeLocale) return undefined
+  const call = parseTranslationCall(expression, resolveKey)
+  return call && translateCall(call)
+}
+
+/**
+ * Resolve a message key used without a call, e.g. `<i18n-t keypath="...">`
+ * or `v-t="'nav.orders'"`
+ */
+export function resolveTranslationKey(
+  key: string
+): ResolvedTranslation | undefined {
+  if (!activeLocale) return undefined
+  return translateCall({ key, named: {}, list: [] })
+}
+
+function translateCall(call: TranslationCall): ResolvedTranslation | undefined {
+  const active = activeLocale && getMessage(activeLocale, call.key)
+  if (active === undefined) return undefined
+
+  const expressions: Record<string, string> = {}
+  const messages: Record<string, string> = {}
+  let isStatic = true
+  for (const locale of getLocales()) {
+    const message = getMessage(locale, call.key)
+    if (message === undefined) continue
+    const parts = toMessageParts(selectPluralForm(message, call.count))
+    if (parts.some((part) => part.kind === 'placeholder')) isStatic = false
+    expressions[locale] = toTemplateLiteral(parts, call)
+    messages[locale] = parts.map((part) => part.value).join('')
+  }
+
+  return {
+    key: call.key,
+    expression: toTemplateLiteral(
+      toMessageParts(selectPluralForm(active, call.count)),
+      call
+    ),
+    expressions,
+    messages: isStatic ? messages : {}
+  }
+}
+
+/**
+ * Message for a key in a locale, with linked messages (`@:other.key`)
+ * inlined
+ */
+function getMessage(
+  locale: string,
+  key: string,
+  depth = 0
+): string | undefined {
+  const message = localeMessages.get(locale)?.get(key)
+  if (message === undefined || depth > 10) return message
+
+  return message.replace(
+    /@(?:\.(\w+))?:\(?([\w.-]+)\)?/g,
+    (match, modifier: string | undefined, linkedKey: string) => {
+      const linked = getMessage(locale, linkedKey, depth + 1)
+      if (linked === undefined) return match
+      if (modifier === 'lower') return linked.toLowerCase()
+      if (modifier === 'upper') return linked.toUpperCase()
+      if (modifier === 'capitalize') {
+        return linked.charAt(0).toUpperCase() + linked.slice(1)
+      }
+      return linked
+    }
+  )
+}
+
+/**
+ * Pick the plural form of `zero | one | many` messages for a literal count;
+ * the last form stands in for a count only known at runtime
+ */
+function selectPluralForm(message: string, count?: string): string {
+  const forms = message.split(/\s*\|\s*/)
+  if (forms.length === 1) return message
+
+  const value = count !== undefined ? Number(count) : NaN
+  if (Number.isNaN(value)) return forms[forms.length - 1]
+  if (forms.length === 2) return value === 1 ? forms[0] : forms[1]
+  return forms[Math.min(Math.max(value, 0), forms.length - 1)]
+}
+
+type MessagePart =
+  | { kind: 'text'; value: string }
+  | { kind: 'placeholder'; name: string; value: string };
+
+/**
+ * Split a message into text and `{name}` / `{0}` placeholders. Literal
+ * interpolations such as `{'@'}` are text
+ */
+function toMessageParts(message: string): MessagePart[] {
+  const parts: MessagePart[] = []
+  let lastIndex = 0
+  for (const match of message.matchAll(/\{\s*([^{}]+?)\s*\}/g)) {
+    const index = match.index || 0
+    if (index > lastIndex) {
+      parts.push({ kind: 'text', value: message.slice(lastIndex, index) })
+    }
+    const literal = /^'(.*)'$/.exec(match[1])
+    parts.push(
+      literal
+        ? { kind: 'text', value: literal[1] }
+        : { kind: 'placeholder', name: match[1], value: match[0] }
+    )
+    lastIndex = index + match[0].length
+  }
+  if (lastIndex < message.length) {
+    parts.push({ kind: 'text', value: message.slice(lastIndex) })
+  }
+  return parts
+}
+
+function toTemplateLiteral(parts: MessagePart[], call: TranslationCall): string {
+  const source = parts
+    .map((part) => {
+      if (part.kind === 'text') {
+        return part.value.replace(/[`\\]/g, '\\$&').replace(/\$\{/g, '\\${')
+      }
+      const position = Number(part.name)
+      const value = Number.isInteger(position)
+        ? call.list[position]
+        : call.named[part.name] ??
+          (['count', 'n'].includes(part.name) ? call.count : undefined)
+      const fallback = /^[A-Za-z_$][\w$]*$/.test(part.name) ? part.name : 'value'
+      return `\${${value ?? fallback}}`
+    })
+    .join('')
+  return `\`${source}\``
+}
+
+function getPropertyName(name: ts.PropertyName): string | undefined {
+  return ts.isIdentifier(name) || ts.isStringLiteral(name)
+    ? name.text
+    : undefined
+}
+
+/**
+ * Add the messages of one file. The locale comes from the file name
+ * (`en.json`) or its directory (`locales/en/common.json`); a file named
+ * otherwise holds messages keyed by locale (`{ en: {...}, de: {...} }`)
+ */
+function loadMessageFile(file: string): void {
+  let entries: Array<{ name: string; value: string }>
+  try {
+    entries = readMessageEntries(file)
+  } catch (error) {
+    messageFileErrors.push({
+      file,
+      message: error instanceof Error ? error.message : String(error)
+    })
+    return
+  }
+
+  const baseName = path.basename(file, path.extname(file))
+  const directoryName = path.basename(path.dirname(file))
+  const fileLocale = localePattern.test(directoryName)
+    ? directoryName
+    : localePattern.test(baseName)
+      ? baseName
+      : undefined
+
+  for (const { name, value } of entries) {
+    let locale = fileLocale
+    let key = name
+    if (!locale) {
+      const [first, ...rest] = name.split('.')
+      if (!localePattern.test(first) || rest.length === 0) continue
+      locale = first
+      key = rest.join('.')
+    }
+
+    const normalized = locale.replace('_', '-')
+    if (!localeMessages.has(normalized)) {
+      localeMessages.set(normalized, new Map())
+    }
+    localeMessages.get(normalized)?.set(key, value)
+  }
+}
+
+function readMessageEntries(
+  file: string
+): Array<{ name: string; value: string }> {
+  const extension = path.extname(file)
+  if (extension === '.ts' || extension === '.js') {
+    // Exported objects are evaluated like constants, imports included
+    const exported = listExportedConstants(file, 'default')
+    return exported.length > 0
+      ? exported
+      : listExportedConstants(file, 'messages')
+  }
+
+  const content = fs.readFileSync(file, 'utf-8')
+  const data =
+    extension === '.json' ? JSON.parse(content) : yaml.load(content)
+
+  const entries: Array<{ name: string; value: string }> = []
+  const flatten = (name: string, value: unknown) => {
+    if (typeof value === 'string') {
+      entries.push({ name, value })
+    } else if (value && typeof value === 'object') {
+      for (const [key, child] of Object.entries(value)) {
+        flatten(name ? `${name}.${key}` : key, child)
+      }
+    }
+  }
+  flatten('', data)
+  return entries
+}
+
+/**
+ * `locale` passed to `createI18n({ locale: 'de' })` in the project scripts
+ */
+function findConfiguredLocale(scriptFiles: string[]): string | undefined {
+  for (const file of scriptFiles) {
+    const content = fs.readFileSync(file, 'utf-8')
+    if (!content.includes('createI18n')) continue
+
+    const sourceFile = ts.createSourceFile(
+      file,
+      content,
+      ts.ScriptTarget.Latest,
+      true
+    )
+    let locale: string | undefined
+    const visit = (node: ts.Node): void => {
+      if (
+        !locale &&
+        ts.isCallExpression(node) &&
+        ts.isIdentifier(node.expression) &&
+        node.expression.text === 'createI18n' &&
+        node.arguments[0] &&
+        ts.isObjectLiteralExpression(node.arguments[0])
+      ) {
+        for (const property of node.arguments[0].properties) {
+          if (
+            ts.isPropertyAssignment(property) &&
+            getPropertyName(property.name) === 'locale' &&
+            ts.isStringLiteral(property.initializer)
+          ) {
+            locale = property.initializer.text
+          }
+        }
+      }
+      if (!locale) ts.forEachChild(node, visit)
+    }
+    visit(sourceFile)
+    if (locale) return locale
+  }
+  return undefined
+}
@@ -0,0 +1,386 @@
+import path from 'path'
+import type { extractLocatorsFromVue } from './scanVueTemplates'
+
+/**
+ * Machine-readable locator inventory: the result of a scan as JSON, with the
+ * JSON Schema it follows
+ */
+
+export type ExtractionResult = Awaited<ReturnType<typeof extractLocatorsFromVue>>
+
+// Bumped whenever a field is removed or changes meaning; added fields keep
+// the version
+export const inventorySchemaVersion = 1
+
+export const inventorySchemaFile = 'inventory.schema.json'
+
+export interface LocatorInventory {
+  $schema: string;
+  schemaVersion: typeof inventorySchemaVersion;
+  project: string; // Project directory, relative to the working directory
+  summary: {
+    files: number;
+    locators: number;
+    robust: number;
+    fragile: number;
+    dynamic: number;
+    conditional: number;
+  };
+  locators: ExtractionResult['groupedLocators'];
+  warnings: ExtractionResult['warnings'];
+  customComponentWarnings: ExtractionResult['customComponentWarnings'];
+  keyCollisions: ExtractionResult['keyCollisions'];
+  diagnostics: ExtractionResult['diagnostics'];
+  constants: ExtractionResult['constants'];
+  routes: ExtractionResult['routes'];
+  i18n: ExtractionResult['i18n'];
+  componentUsages: ExtractionResult['componentUsages'];
+}
+
+/**
+ * Inventory of a scan of `baseDir`. File paths in it are relative to the
+ * project, as in the scan result
+ */
+export function createInventory(
+  result: ExtractionResult,
+  baseDir: string
+): LocatorInventory {
+  const locators = Object.values(result.groupedLocators).flatMap((set) =>
+    Object.values(set)
+  )
+
+  return {
+    $schema: `./${inventorySchemaFile}`,
+    schemaVersion: inventorySchemaVersion,
+    project: toPosix(path.relative(process.cwd(), baseDir)) || '.',
+    summary: {
+      files: Object.keys(result.groupedLocators).length,
+      locators: locators.length,
+      robust: locators.filter((info) => info.robustness === 'robust').length,
+      fragile: locators.filter((info) => info.robustness === 'fragile').length,
+      dynamic: locators.filter((info) => info.isDynamic).length,
+      conditional: locators.filter((info) => info.isConditional).length
+    },
+    locators: result.groupedLocators,
+    warnings: result.warnings,
+    customComponentWarnings: result.customComponentWarnings,
+    keyCollisions: result.keyCollisions,
+    diagnostics: result.diagnostics,
+    constants: result.constants,
+    routes: result.routes,
+    i18n: result.i18n,
+    componentUsages: result.componentUsages
+  }
+}
+
+export function toPosix(file: string): string {
+  return file.replace(/\\/g, '/')
+}
+
+const stringList = { type: 'array', items: { type: 'string' } }
+const stringMap = { type: 'object', additionalProperties: { type: 'string' } }
+
+const locatorTypes = [
+  'data-testid',
+  'data-test-id',
+  'data-test',
+  'id',
+  'class',
+  'aria-label',
+  'role',
+  'name',
+  'placeholder',
+  'xpath'
+]
+
+/**
+ * JSON Schema of the inventory, version `inventorySchemaVersion`
+ */
+export const inventorySchema = {
+  $schema: 'https://json-schema.org/draft/2020-12/schema',
+  $id: `locator-inventory-v${inventorySchemaVersion}`,
+  title: 'Locator inventory',
+  description:
+    'Locators, warnings and diagnostics extracted from a Vue project. ' +
+    'Paths are relative to the project directory; lines and columns are 1-based, offsets 0-based.',
+  type: 'object',
+  required: [
+    'schemaVersion',
+    'project',
+    'summary',
+    'locators',
+    'warnings',
+    'customComponentWarnings',
+    'keyCollisions',
+    'diagnostics',
+    'constants',
+    'routes',
+    'i18n',
+    'componentUsages'
+  ],
+  properties: {
+    $schema: { type: 'string' },
+    schemaVersion: { const: inventorySchemaVersion },
+    project: { type: 'string' },
+    summary: {
+      type: 'object',
+      required: ['files', 'locators', 'robust', 'fragile', 'dynamic', 'conditional'],
+      properties: {
+        files: { type: 'integer' },
+        locators: { type: 'integer' },
+        robust: { type: 'integer' },
+        fragile: { type: 'integer' },
+        dynamic: { type: 'integer' },
+        conditional: { type: 'integer' }
+      }
+    },
+    locators: {
+      description: 'Locators by file, then by key',
+      type: 'object',
+      additionalProperties: {
+        type: 'object',
+        additionalProperties: { $ref: '#/$defs/locator' }
+      }
+    },
+    warnings: stringList,
+    customComponentWarnings: {
+      type: 'array',
+      items: { $ref: '#/$defs/customComponentWarning' }
+    },
+    keyCollisions: { type: 'array', items: { $ref: '#/$defs/keyCollision' } },
+    diagnostics: { type: 'array', items: { $ref: '#/$defs/diagnostic' } },
+    constants: { type: 'array', items: { $ref: '#/$defs/constant' } },
+    routes: { type: 'array', items: { $ref: '#/$defs/route' } },
+    i18n: {
+      type: 'object',
+      required: ['locales'],
+      properties: {
+        locale: { type: 'string' },
+        locales: stringList
+      }
+    },
+    componentUsages: {
+      description: 'Project components each file renders',
+      type: 'object',
+      additionalProperties: stringList
+    }
+  },
+  $defs: {
+    location: {
+      type: 'object',
+      required: ['file', 'line', 'column', 'startOffset', 'endOffset'],
+      properties: {
+        file: { type: 'string' },
+        line: { type: 'integer' },
+        column: { type: 'integer' },
+        startOffset: { type: 'integer' },
+        endOffset: { type: 'integer' }
+      }
+    },
+    position: {
+      type: 'object',
+      required: ['offset', 'line', 'column'],
+      properties: {
+        offset: { type: 'integer' },
+        line: { type: 'integer' },
+        column: { type: 'integer' }
+      }
+    },
+    locatorType: { enum: locatorTypes },
+    valueTemplate: {
+      description: 'Bound value with runtime holes, e.g. order-row-{order.id}',
+      type: 'object',
+      required: ['pattern', 'parts', 'params'],
+      properties: {
+        pattern: { type: 'string' },
+        parts: {
+          type: 'array',
+          items: {
+            oneOf: [
+              {
+                type: 'object',
+                required: ['kind', 'value'],
+                properties: { kind: { const: 'text' }, value: { type: 'string' } }
+              },
+              {
+                type: 'object',
+                required: ['kind', 'expression', 'param'],
+                properties: {
+                  kind: { const: 'hole' },
+                  expression: { type: 'string' },
+                  param: { type: 'string' }
+                }
+              }
+            ]
+          }
+        },
+        params: stringList
+      }
+    },
+    locator: {
+      type: 'object',
+      required: ['selector', 'type', 'rawValue', 'robustness', 'testRelevance'],
+      properties: {
+        selector: { type: 'string' },
+        type: { $ref: '#/$defs/locatorType' },
+        element: { type: 'string' },
+        rawValue: { type: 'string' },
+        robustness: { enum: ['robust', 'fragile'] },
+        testRelevance: { enum: ['high', 'medium', 'low'] },
+        warning: { type: 'string' },
+        isDynamic: { type: 'boolean', description: 'Inside v-for' },
+        isConditional: { type: 'boolean', description: 'Inside v-if or v-show' },
+        vueDirectives: stringList,
+        customComponent: { type: 'boolean' },
+        parentContext: { type: 'string' },
+        ancestors: {
+          description: 'Enclosing elements, outermost first',
+          type: 'array',
+          items: {
+            type: 'object',
+            required: ['tag', 'attributes', 'renderDirectives', 'position'],
+            properties: {
+              tag: { type: 'string' },
+              attributes: stringMap,
+              renderDirectives: stringMap,
+              position: { $ref: '#/$defs/position' }
+            }
+          }
+        },
+        resolvedFromConstant: { type: 'string' },
+        resolvedConstantFile: { type: 'string' },
+        valueTemplate: { $ref: '#/$defs/valueTemplate' },
+        translation: {
+          type: 'object',
+          required: ['key', 'locale', 'values', 'templates', 'selectors'],
+          properties: {
+            key: { type: 'string' },
+            locale: { type: 'string' },
+            values: stringMap,
+            templates: {
+              description: 'Value template per locale, for messages with placeholders',
+              type: 'object',
+              additionalProperties: { $ref: '#/$defs/valueTemplate' }
+            },
+            selectors: stringMap
+          }
+        },
+        accessibility: {
+          type: 'object',
+          required: ['role', 'unique'],
+          properties: {
+            role: { type: 'string' },
+            level: { type: 'integer' },
+            name: { type: 'string' },
+            unique: { type: 'boolean' }
+          }
+        },
+        label: {
+          type: 'object',
+          required: ['text', 'association', 'location'],
+          properties: {
+            text: { type: 'string' },
+            association: { enum: ['for', 'wrapping'] },
+            location: { $ref: '#/$defs/location' }
+          }
+        },
+        teleport: {
+          type: 'object',
+          required: ['kind', 'component', 'to', 'location'],
+          properties: {
+            kind: { enum: ['teleport', 'portal', 'component'] },
+            component: { type: 'string' },
+            to: { type: 'string' },
+            selector: { type: 'string' },
+            location: { $ref: '#/$defs/location' }
+          }
+        },
+        row: {
+          type: 'object',
+          required: ['element', 'type', 'rawValue', 'selector', 'iterator', 'location'],
+          properties: {
+            element: { type: 'string' },
+            type: { $ref: '#/$defs/locatorType' },
+            rawValue: { type: 'string' },
+            selector: { type: 'string' },
+            valueTemplate: { $ref: '#/$defs/valueTemplate' },
+            iterator: { type: 'string' },
+            location: { $ref: '#/$defs/location' }
+          }
+        },
+        resolvedComponent: {
+          type: 'object',
+          required: ['name', 'element', 'via'],
+          properties: {
+            name: { type: 'string' },
+            element: { type: 'string' },
+            role: { type: 'string' },
+            file: { type: 'string' },
+            library: { type: 'string' },
+            via: stringList
+          }
+        },
+        slotName: { type: 'string' },
+        templateWrapper: { type: 'string' },
+        location: { $ref: '#/$defs/location' }
+      }
+    },
+    customComponentWarning: {
+      type: 'object',
+      required: ['file', 'component', 'line', 'location', 'message'],
+      properties: {
+        file: { type: 'string' },
+        component: { type: 'string' },
+        line: { type: 'integer' },
+        location: { $ref: '#/$defs/location' },
+        message: { type: 'string' },
+        componentFile: { type: 'string' },
+        attribute: { type: 'string' }
+      }
+    },
+    keyCollision: {
+      type: 'object',
+      required: ['file', 'key', 'resolvedKey', 'strategy', 'existing', 'incoming', 'message'],
+      properties: {
+        file: { type: 'string' },
+        key: { type: 'string' },
+        resolvedKey: { type: 'string' },
+        strategy: { enum: ['element', 'parent', 'ordinal'] },
+        existing: { type: 'string' },
+        incoming: { type: 'string' },
+        message: { type: 'string' }
+      }
+    },
+    diagnostic: {
+      type: 'object',
+      required: ['file', 'severity', 'message'],
+      properties: {
+        file: { type: 'string' },
+        location: { $ref: '#/$defs/location' },
+        severity: { enum: ['error', 'warning'] },
+        message: { type: 'string' }
+      }
+    },
+    constant: {
+      type: 'object',
+      required: ['name', 'value', 'type', 'file'],
+      properties: {
+        name: { type: 'string' },
+        value: { type: 'string' },
+        type: { enum: ['role', 'label', 'testid', 'name', 'placeholder', 'other'] },
+        file: { type: 'string' }
+      }
+    },
+    route: {
+      type: 'object',
+      required: ['path', 'file', 'components', 'layouts'],
+      properties: {
+        path: { type: 'string' },
+        name: { type: 'string' },
+        file: { type: 'string' },
+        components: stringList,
+        layouts: stringList
+      }
+    }
+  }
+}
@@ -0,0 +1,127 @@
+import fs from 'fs-extra'
+import path from 'path'
+
+/**
+ * Manifest of the files `generate` wrote for each source file, so the next
+ * run can remove the modules of components that no longer exist
+ */
+
+export const outputManifestFile = 'manifest.json'
+
+// Bumped whenever a field is removed or changes meaning; manifests of
+// another version are ignored
+export const outputManifestVersion = 1
+
+export interface GeneratedFile {
+  file: string; // Relative to the output directory
+  format: string;
+}
+
+export interface OutputManifest {
+  version: typeof outputManifestVersion;
+  layout: string;
+  sources: Record<string, GeneratedFile[]>; // By source file, relative to the project
+}
+
+export function createOutputManifest(layout: string): OutputManifest {
+  return { version: outputManifestVersion, layout, sources: {} }
+}
+
+/**
+ * Record that `file` holds generated code of `source`
+ */
+export function addGeneratedFile(
+  manifest: OutputManifest,
+  source: string,
+  generated: GeneratedFile
+): void {
+  if (!manifest.sources[source]) manifest.sources[source] = []
+  const files = manifest.sources[source]
+  if (!files.some(({ file }) => file === generated.file)) files.push(generated)
+}
+
+/**
+ * The manifest a previous run left in `outDir`, if it can be read
+ */
+export async function readOutputManifest(
+  outDir: string
+): Promise<OutputManifest | undefined> {
+  const file = path.join(outDir, outputManifestFile)
+  if (!fs.existsSync(file)) return undefined
+  try {
+    const manifest = JSON.parse(await fs.readFile(file, 'utf-8'))
+    return manifest?.version === outputManifestVersion &&
+      typeof manifest.sources === 'object'
+      ? manifest
+      : undefined
+  } catch {
+    return undefined
+  }
+}
+
+/**
+ * Files of the previous run that this run no longer generates: those of
+ * removed sources, and those a format was written to before but not now,
+ * e.g. after a layout change. Files of formats this run skipped, and of
+ * sources a partial run (`include`/`exclude`) left out, are still current,
+ * so they are carried over into `current` instead
+ */
+export function findStaleOutputs(
+  previous: OutputManifest,
+  current: OutputManifest,
+  options: { baseDir: string; formats: readonly string[]; partial: boolean }
+): string[] {
+  const written = new Set(
+    Object.values(current.sources).flatMap((files) => files.map(({ file }) => file))
+  )
+  const stale = new Set<string>()
+
+  for (const [source, files] of Object.entries(previous.sources)) {
+    const skipped =
+      options.partial &&
+      !current.sources[source] &&
+      fs.existsSync(path.join(options.baseDir, source))
+
+    for (const generated of files) {
+      if (written.has(generated.file)) continue
+      if (skipped || !options.formats.includes(generated.format)) {
+        addGeneratedFile(current, source, generated)
+        written.add(generated.file)
+      } else {
+        stale.add(generated.file)
+      }
+    }
+  }
+
+  // A file shared with a carried-over source is still current
+  return [...stale].filter((file) => !written.has(file))
+}
+
+/**
+ * Delete stale generated files and the directories they leave empty. Paths
+ * outside `outDir` are never touched
+ */
+export async function removeStaleOutputs(
+  outDir: string,
+  files: string[]
+): Promise<string[]> {
+  const root = path.resolve(outDir)
+  const removed: string[] = []
+
+  for (const file of files) {
+    const target = path.resolve(root, file)
+    const relative = path.relative(root, target)
+    if (!relative || relative.startsWith('..') || path.isAbsolute(relative)) continue
+    if (!fs.existsSync(target)) continue
+
+    await fs.remove(target)
+    removed.push(path.join(outDir, file))
+
+    let dir = path.dirname(target)
+    while (dir !== root && (await fs.readdir(dir)).length === 0) {
+      await fs.rmdir(dir)
+      dir = path.dirname(dir)
+    }
+  }
+  return removed
+}
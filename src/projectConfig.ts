@@ -0,0 +1,337 @@
+import fs from 'fs-extra'
+import path from 'path'
+import { pathToFileURL } from 'url'
+
+/**
+ * Project configuration, read from `locator-extractor.config.(ts|js|json)`.
+ * Lists extend the defaults; `naming` options replace them
+ */
+export interface LocatorExtractorConfig {
+  testIdAttributes?: string[]; // Robust test ids, e.g. 'data-qa'
+  testIdAttribute?: string; // Playwright's testIdAttribute, the one getByTestId matches
+  robustAttributes?: string[]; // Make an element's locators robust, e.g. 'data-cy'
+  interactiveElements?: string[]; // High test relevance, with a fallback XPath when unattributed
+  ignore?: string[]; // Globs of files never scanned, relative to the project
+  naming?: NamingConventions;
+  overrides?: GeneratorOverride[];
+}
+
+export interface NamingConventions {
+  classSuffix?: string; // Page Object class suffix, e.g. 'Page' → loginFormPage
+  propertyCase?: 'camel' | 'pascal' | 'snake'; // Page Object members
+}
+
+/**
+ * Playwright method the generator uses for an element's locators, in place
+ * of the one picked from the locator type. `type` limits the rule to one
+ * locator type (`id`, `class`, `data-testid`, ...)
+ */
+export interface GeneratorOverride {
+  element: string; // Tag, matched case-insensitively
+  type?: string;
+  method: GeneratorMethod;
+}
+
+export type GeneratorMethod = (typeof generatorMethods)[number]
+
+/**
+ * Configuration merged with the defaults
+ */
+export interface ProjectConfig {
+  testIdAttributes: string[];
+  testIdAttribute: string;
+  robustAttributes: string[];
+  interactiveElements: string[];
+  ignore: string[];
+  naming: Required<NamingConventions>;
+  overrides: GeneratorOverride[];
+  file?: string; // Config file, when one was found
+}
+
+/**
+ * A config file that cannot be read or does not match the schema
+ */
+export class ConfigError extends Error {
+  constructor(message: string) {
+    super(message)
+    this.name = 'ConfigError'
+  }
+}
+
+const generatorMethods = [
+  'getByTestId',
+  'getByLabel',
+  'getByPlaceholder',
+  'getByText',
+  'getByTitle',
+  'locator'
+] as const
+
+const locatorTypes = [
+  'data-testid',
+  'data-test-id',
+  'data-test',
+  'id',
+  'class',
+  'aria-label',
+  'role',
+  'name',
+  'placeholder',
+  'xpath'
+]
+
+// Config file names, in lookup order
+const configFileNames = [
+  'locator-extractor.config.ts',
+  'locator-extractor.config.mts',
+  'locator-extractor.config.js',
+  'locator-extractor.config.mjs',
+  'locator-extractor.config.json'
+]
+
+export const defaultProjectConfig: ProjectConfig = {
+  testIdAttributes: ['data-testid', 'data-test-id', 'data-test'],
+  testIdAttribute: 'data-testid',
+  robustAttributes: ['id', 'name', 'role', 'aria-label', 'placeholder'],
+  interactiveElements: ['button', 'input', 'textarea', 'select', 'a'],
+  ignore: ['**/locator-extractor.config.*'],
+  naming: { classSuffix: 'Page', propertyCase: 'camel' },
+  overrides: [
+    // Grid cells and emphasised values carry their test id in `id`
+    { element: 'strong', type: 'id', method: 'getByTestId' },
+    { element: 'xgrid', type: 'id', method: 'getByTestId' }
+  ]
+}
+
+let activeConfig: ProjectConfig = defaultProjectConfig
+
+/**
+ * Configuration of the current scan
+ */
+export function getProjectConfig(): ProjectConfig {
+  return activeConfig
+}
+
+export function resetProjectConfig(
+  config: ProjectConfig = defaultProjectConfig
+): void {
+  activeConfig = config
+}
+
+/**
+ * Find and load the project's config file: `configFile` when given, else the
+ * first config file in the project directory or the working directory.
+ * Defaults when there is none
+ */
+export async function loadProjectConfig(
+  baseDir: string,
+  configFile?: string
+): Promise<ProjectConfig> {
+  const file = configFile
+    ? path.resolve(configFile)
+    : [baseDir, process.cwd()]
+      .flatMap((dir) => configFileNames.map((name) => path.join(dir, name)))
+      .find((candidate) => fs.existsSync(candidate))
+
+  if (!file) return defaultProjectConfig
+  if (!fs.existsSync(file)) {
+    throw new ConfigError(`Config file not found: ${file}`)
+  }
+
+  return mergeProjectConfig(validateConfig(await readConfigFile(file), file), file)
+}
+
+/**
+ * Merge a validated config with the defaults; lists put the project's
+ * entries first
+ */
+export function mergeProjectConfig(
+  config: LocatorExtractorConfig,
+  file?: string
+): ProjectConfig {
+  const merge = (values: string[] | undefined, defaults: string[]) => [
+    ...new Set([...(values ?? []), ...defaults])
+  ]
+
+  return {
+    testIdAttributes: merge(
+      [...(config.testIdAttributes ?? []), ...(config.testIdAttribute ? [config.testIdAttribute] : [])],
+      defaultProjectConfig.testIdAttributes
+    ),
+    testIdAttribute: config.testIdAttribute ?? defaultProjectConfig.testIdAttribute,
+    robustAttributes: merge(
+      config.robustAttributes,
+      defaultProjectConfig.robustAttributes
+    ),
+    interactiveElements: merge(
+      config.interactiveElements?.map((tag) => tag.toLowerCase()),
+      defaultProjectConfig.interactiveElements
+    ),
+    ignore: merge(config.ignore, defaultProjectConfig.ignore),
+    naming: { ...defaultProjectConfig.naming, ...config.naming },
+    overrides: [
+      ...(config.overrides ?? []),
+      ...defaultProjectConfig.overrides
+    ],
+    file
+  }
+}
+
+/**
+ * The generator override for a locator of an element, if any
+ */
+export function findGeneratorOverride(
+  config: ProjectConfig,
+  element: string | undefined,
+  type: string
+): GeneratorOverride | undefined {
+  if (!element) return undefined
+  return config.overrides.find(
+    (override) =>
+      override.element.toLowerCase() === element.toLowerCase() &&
+      (!override.type || override.type === type)
+  )
+}
+
+async function readConfigFile(file: string): Promise<unknown> {
+  try {
+    if (file.endsWith('.json')) {
+      return JSON.parse(await fs.readFile(file, 'utf-8'))
+    }
+    const module = await import(pathToFileURL(file).href)
+    return module.default ?? module
+  } catch (error) {
+    throw new ConfigError(
+      `Could not read ${file}: ${error instanceof Error ? error.message : error}`
+    )
+  }
+}
+
+/**
+ * Check a config against the schema, collecting every problem
+ */
+function validateConfig(value: unknown, file: string): LocatorExtractorConfig {
+  const errors: string[] = []
+  const name = path.basename(file)
+
+  if (!isPlainObject(value)) {
+    throw new ConfigError(`${name} must export an object`)
+  }
+
+  checkKeys(value, '', [
+    'testIdAttributes',
+    'testIdAttribute',
+    'robustAttributes',
+    'interactiveElements',
+    'ignore',
+    'naming',
+    'overrides'
+  ], errors)
+
+  const attributePattern = /^[a-zA-Z_:][-a-zA-Z0-9_:.]*$/
+  checkStringList(value.testIdAttributes, 'testIdAttributes', errors, attributePattern, 'an attribute name')
+  if (
+    value.testIdAttribute !== undefined &&
+    (typeof value.testIdAttribute !== 'string' || !attributePattern.test(value.testIdAttribute))
+  ) {
+    errors.push('testIdAttribute must be an attribute name')
+  }
+  checkStringList(value.robustAttributes, 'robustAttributes', errors, attributePattern, 'an attribute name')
+  checkStringList(value.interactiveElements, 'interactiveElements', errors, /^[a-zA-Z][-a-zA-Z0-9]*$/, 'a tag name')
+  checkStringList(value.ignore, 'ignore', errors)
+
+  if (value.naming !== undefined) {
+    if (!isPlainObject(value.naming)) {
+      errors.push('naming must be an object')
+    } else {
+      const { classSuffix, propertyCase } = value.naming
+      checkKeys(value.naming, 'naming.', ['classSuffix', 'propertyCase'], errors)
+      if (
+        classSuffix !== undefined &&
+        (typeof classSuffix !== 'string' || !/^[A-Za-z0-9_$]*$/.test(classSuffix))
+      ) {
+        errors.push('naming.classSuffix must be a string of identifier characters')
+      }
+      if (
+        propertyCase !== undefined &&
+        !['camel', 'pascal', 'snake'].includes(propertyCase as string)
+      ) {
+        errors.push('naming.propertyCase must be one of camel, pascal, snake')
+      }
+    }
+  }
+
+  if (value.overrides !== undefined) {
+    if (!Array.isArray(value.overrides)) {
+      errors.push('overrides must be an array')
+    } else {
+      value.overrides.forEach((override: unknown, index) => {
+        const at = `overrides[${index}]`
+        if (!isPlainObject(override)) {
+          errors.push(`${at} must be an object`)
+          return
+        }
+        checkKeys(override, `${at}.`, ['element', 'type', 'method'], errors)
+        if (typeof override.element !== 'string' || !override.element.trim()) {
+          errors.push(`${at}.element must be a tag name`)
+        }
+        if (
+          override.type !== undefined &&
+          !locatorTypes.includes(override.type as string)
+        ) {
+          errors.push(`${at}.type must be one of ${locatorTypes.join(', ')}`)
+        }
+        if (!generatorMethods.includes(override.method as GeneratorMethod)) {
+          errors.push(`${at}.method must be one of ${generatorMethods.join(', ')}`)
+        }
+      })
+    }
+  }
+
+  if (errors.length > 0) {
+    throw new ConfigError(
+      `Invalid ${name}:\n${errors.map((error) => `  - ${error}`).join('\n')}`
+    )
+  }
+  return value as LocatorExtractorConfig
+}
+
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value)
+}
+
+function checkKeys(
+  object: Record<string, unknown>,
+  prefix: string,
+  known: string[],
+  errors: string[]
+): void {
+  for (const key of Object.keys(object)) {
+    if (!known.includes(key)) {
+      errors.push(
+        `Unknown option ${prefix}${key} (expected ${known.map((name) => `${prefix}${name}`).join(', ')})`
+      )
+    }
+  }
+}
+
+function checkStringList(
+  value: unknown,
+  name: string,
+  errors: string[],
+  pattern?: RegExp,
+  description?: string
+): void {
+  if (value === undefined) return
+  if (!Array.isArray(value)) {
+    errors.push(`${name} must be an array of strings`)
+    return
+  }
+  value.forEach((item, index) => {
+    if (typeof item !== 'string' || !item.trim()) {
+      errors.push(`${name}[${index}] must be a non-empty string`)
+    } else if (pattern && !pattern.test(item)) {
+      errors.push(`${name}[${index}] "${item}" is not ${description}`)
+    }
+  })
+}
@@ -0,0 +1,304 @@
+import fs from 'fs-extra'
+import path from 'path'
+import ts from 'typescript'
+import { resolveImportBinding } from './constantResolver'
+import { resolveComponentExpression } from './componentResolver'
+
+/**
+ * A route from the project's vue-router configuration, with the components
+ * that render it
+ */
+export interface RouteDefinition {
+  path: string; // Full path, including the paths of enclosing routes
+  name?: string;
+  file: string; // Router file the route is declared in
+  components: string[]; // Route components, including named views
+  layouts: string[]; // Components of enclosing routes, outermost first
+}
+
+// Calls that create a router from an options object
+const routerFactories = ['createRouter', 'VueRouter', 'Router']
+
+// Lazy route component imports the last extraction could not follow
+const unresolvedImports: Array<{ file: string; specifier: string }> = []
+
+/**
+ * Routes of every `createRouter({ routes })` / `new VueRouter({ routes })`
+ * in the given script files, with nested `children` flattened
+ */
+export function extractRoutes(
+  baseDir: string,
+  scriptFiles: string[]
+): RouteDefinition[] {
+  const routes: RouteDefinition[] = []
+  unresolvedImports.length = 0
+
+  for (const file of scriptFiles) {
+    const sourceFile = parseScript(file)
+    if (!sourceFile) continue
+
+    const visit = (node: ts.Node): void => {
+      const options = getRouterOptions(node)
+      const routesProperty = options && getProperty(options, 'routes')
+      if (routesProperty) {
+        const records = resolveRouteArray(routesProperty, file, sourceFile)
+        const routerFile = path.relative(baseDir, file)
+        collectRoutes(records, baseDir, routerFile, '', [], routes)
+      }
+      ts.forEachChild(node, visit)
+    }
+    visit(sourceFile)
+  }
+
+  return routes
+}
+
+/**
+ * Lazy `import()` specifiers of route components that did not resolve to a
+ * `.vue` file in the last `extractRoutes`, with the file they appear in
+ */
+export function getUnresolvedRouteImports(): Array<{ file: string; specifier: string }> {
+  return [...unresolvedImports]
+}
+
+interface RouteRecord {
+  node: ts.ObjectLiteralExpression;
+  file: string; // Absolute file the record is declared in
+  sourceFile: ts.SourceFile;
+}
+
+function parseScript(file: string): ts.SourceFile | undefined {
+  if (!fs.existsSync(file)) return undefined
+  return ts.createSourceFile(
+    file,
+    fs.readFileSync(file, 'utf-8'),
+    ts.ScriptTarget.Latest,
+    true,
+    /\.(tsx|jsx)$/.test(file) ? ts.ScriptKind.TSX : ts.ScriptKind.TS
+  )
+}
+
+function getRouterOptions(
+  node: ts.Node
+): ts.ObjectLiteralExpression | undefined {
+  if (!ts.isCallExpression(node) && !ts.isNewExpression(node)) return undefined
+
+  const callee = node.expression
+  let name: string | undefined
+  if (ts.isIdentifier(callee)) {
+    name = callee.text
+  } else if (ts.isPropertyAccessExpression(callee)) {
+    name = callee.name.text
+  }
+  if (!name || !routerFactories.includes(name)) return undefined
+
+  const options = node.arguments?.[0]
+  return options && ts.isObjectLiteralExpression(options) ? options : undefined
+}
+
+/**
+ * Value of a property, with `{ routes }` shorthand resolved to its binding
+ */
+function getProperty(
+  object: ts.ObjectLiteralExpression,
+  name: string
+): ts.Expression | undefined {
+  for (const property of object.properties) {
+    if (!property.name || getPropertyName(property.name) !== name) continue
+    if (ts.isPropertyAssignment(property)) return property.initializer
+    if (ts.isShorthandPropertyAssignment(property)) return property.name
+  }
+  return undefined
+}
+
+function getPropertyName(name: ts.PropertyName): string | undefined {
+  return ts.isIdentifier(name) || ts.isStringLiteral(name)
+    ? name.text
+    : undefined
+}
+
+function getStringProperty(
+  object: ts.ObjectLiteralExpression,
+  name: string
+): string | undefined {
+  const value = getProperty(object, name)
+  return value &&
+    (ts.isStringLiteral(value) || ts.isNoSubstitutionTemplateLiteral(value))
+    ? value.text
+    : undefined
+}
+
+function unwrap(node: ts.Expression): ts.Expression {
+  while (
+    ts.isParenthesizedExpression(node) ||
+    ts.isAsExpression(node) ||
+    ts.isSatisfiesExpression(node)
+  ) {
+    node = node.expression
+  }
+  return node
+}
+
+/**
+ * Route records of an array literal, following identifiers to their
+ * declaration in the same file or an imported module, and spreads
+ */
+function resolveRouteArray(
+  expression: ts.Expression,
+  file: string,
+  sourceFile: ts.SourceFile,
+  seen: Set<string> = new Set()
+): RouteRecord[] {
+  const node = unwrap(expression)
+
+  if (ts.isIdentifier(node)) {
+    const key = `${file}#${node.text}`
+    if (seen.has(key)) return []
+    seen.add(key)
+
+    const local = findDeclaration(sourceFile, node.text)
+    if (local) return resolveRouteArray(local, file, sourceFile, seen)
+
+    const binding = resolveImportBinding(file, node.text)
+    const importedSource = binding && parseScript(binding.file)
+    const exported =
+      binding && importedSource && findExport(importedSource, binding.imported)
+    return binding && importedSource && exported
+      ? resolveRouteArray(exported, binding.file, importedSource, seen)
+      : []
+  }
+
+  if (!ts.isArrayLiteralExpression(node)) return []
+
+  return node.elements.flatMap((element) => {
+    if (ts.isSpreadElement(element)) {
+      return resolveRouteArray(element.expression, file, sourceFile, seen)
+    }
+    const record = unwrap(element)
+    return ts.isObjectLiteralExpression(record)
+      ? [{ node: record, file, sourceFile }]
+      : []
+  })
+}
+
+function findDeclaration(
+  sourceFile: ts.SourceFile,
+  name: string
+): ts.Expression | undefined {
+  for (const statement of sourceFile.statements) {
+    if (!ts.isVariableStatement(statement)) continue
+    for (const declaration of statement.declarationList.declarations) {
+      if (
+        ts.isIdentifier(declaration.name) &&
+        declaration.name.text === name &&
+        declaration.initializer
+      ) {
+        return declaration.initializer
+      }
+    }
+  }
+  return undefined
+}
+
+function findExport(
+  sourceFile: ts.SourceFile,
+  name: string
+): ts.Expression | undefined {
+  if (name !== 'default') return findDeclaration(sourceFile, name)
+
+  for (const statement of sourceFile.statements) {
+    if (ts.isExportAssignment(statement) && !statement.isExportEquals) {
+      const expression = unwrap(statement.expression)
+      return ts.isIdentifier(expression)
+        ? findDeclaration(sourceFile, expression.text)
+        : expression
+    }
+  }
+  return undefined
+}
+
+function joinRoutePath(parentPath: string, routePath: string): string {
+  if (routePath.startsWith('/')) return routePath
+  const joined = `${parentPath.replace(/\/$/, '')}/${routePath}`
+  return joined.length > 1 ? joined.replace(/\/$/, '') : joined
+}
+
+function collectRoutes(
+  records: RouteRecord[],
+  baseDir: string,
+  routerFile: string,
+  parentPath: string,
+  layouts: string[],
+  routes: RouteDefinition[]
+): void {
+  for (const { node, file, sourceFile } of records) {
+    const routePath = joinRoutePath(
+      parentPath,
+      getStringProperty(node, 'path') ?? ''
+    )
+    const components = getRouteComponents(node, file, sourceFile).map(
+      (componentFile) => path.relative(baseDir, componentFile).replace(/\\/g, '/')
+    )
+
+    if (components.length > 0) {
+      routes.push({
+        path: routePath,
+        name: getStringProperty(node, 'name'),
+        file: routerFile.replace(/\\/g, '/'),
+        components,
+        layouts
+      })
+    }
+
+    const children = getProperty(node, 'children')
+    if (children) {
+      collectRoutes(
+        resolveRouteArray(children, file, sourceFile),
+        baseDir,
+        routerFile,
+        routePath,
+        [...layouts, ...components],
+        routes
+      )
+    }
+  }
+}
+
+/**
+ * Files of `component` and of every named view in `components`
+ */
+function getRouteComponents(
+  route: ts.ObjectLiteralExpression,
+  file: string,
+  sourceFile: ts.SourceFile
+): string[] {
+  const expressions: ts.Expression[] = []
+
+  const component = getProperty(route, 'component')
+  if (component) expressions.push(component)
+
+  const views = getProperty(route, 'components')
+  if (views && ts.isObjectLiteralExpression(views)) {
+    for (const property of views.properties) {
+      if (ts.isPropertyAssignment(property)) {
+        expressions.push(property.initializer)
+      } else if (ts.isShorthandPropertyAssignment(property)) {
+        expressions.push(property.name)
+      }
+    }
+  }
+
+  // const Dashboard = () => import('./Dashboard.vue') in the router file
+  const resolveLocal = (expression: ts.Expression) =>
+    ts.isIdentifier(expression)
+      ? findDeclaration(sourceFile, expression.text) || expression
+      : expression
+
+  return expressions
+    .map((expression) =>
+      resolveComponentExpression(file, resolveLocal(expression), (specifier) =>
+        unresolvedImports.push({ file, specifier })
+      )
+    )
+    .filter((componentFile): componentFile is string => Boolean(componentFile))
+}
@@ -0,0 +1,148 @@
+import path from 'path'
+import { toPosix, type ExtractionResult } from './inventory'
+
+/**
+ * SARIF 2.1.0 log of a scan's findings, for code scanning annotations
+ */
+
+type LocatorInfo = ExtractionResult['groupedLocators'][string][string]
+
+interface SarifRule {
+  id: string;
+  name: string;
+  shortDescription: { text: string };
+  fullDescription: { text: string };
+  help: { text: string };
+  defaultConfiguration: { level: SarifLevel };
+}
+
+type SarifLevel = 'error' | 'warning' | 'note'
+
+interface SarifResult {
+  ruleId: string;
+  ruleIndex: number;
+  level: SarifLevel;
+  message: { text: string };
+  locations: Array<{
+    physicalLocation: {
+      artifactLocation: { uri: string };
+      region: { startLine: number; startColumn: number };
+    };
+  }>;
+  partialFingerprints: { locatorKey: string };
+}
+
+const rules: SarifRule[] = [
+  {
+    id: 'missing-test-id',
+    name: 'MissingTestId',
+    shortDescription: { text: 'Element has no test id' },
+    fullDescription: {
+      text:
+        'A test-relevant element has no test id or other stable attribute, ' +
+        'so tests can only reach it by its position in the document.'
+    },
+    help: {
+      text: 'Add a data-testid (or another configured test id attribute) to the element.'
+    },
+    defaultConfiguration: { level: 'warning' }
+  },
+  {
+    id: 'fragile-locator',
+    name: 'FragileLocator',
+    shortDescription: { text: 'Locator depends on a fragile attribute' },
+    fullDescription: {
+      text: 'The element can only be located by an attribute that changes with styling or content, such as its class.'
+    },
+    help: {
+      text: 'Locate the element by a test id, its role and accessible name, or its label instead.'
+    },
+    defaultConfiguration: { level: 'warning' }
+  }
+]
+
+/**
+ * SARIF log of the missing test ids and fragile locators of a scan of
+ * `baseDir`. Result paths are relative to the working directory, usually the
+ * repository root. Fragile locators of an element that is already reported
+ * as missing a test id are left out
+ */
+export function createSarifLog(result: ExtractionResult, baseDir: string) {
+  const results: SarifResult[] = []
+
+  for (const [file, locators] of Object.entries(result.groupedLocators)) {
+    const entries = Object.entries(locators)
+    const missingTestId = new Set(
+      entries
+        .filter(([, info]) => isMissingTestId(info))
+        .map(([, info]) => info.location?.startOffset)
+    )
+
+    for (const [key, info] of entries) {
+      if (!info.location || info.robustness !== 'fragile') continue
+      const ruleId = isMissingTestId(info) ? 'missing-test-id' : 'fragile-locator'
+      if (ruleId === 'fragile-locator' && missingTestId.has(info.location.startOffset)) {
+        continue
+      }
+
+      results.push({
+        ruleId,
+        ruleIndex: rules.findIndex((rule) => rule.id === ruleId),
+        // Findings on interactive elements are warnings, the rest notes
+        level: info.testRelevance === 'high' ? 'warning' : 'note',
+        message: {
+          text:
+            ruleId === 'missing-test-id'
+              ? describeMissingTestId(info)
+              : describeFragileLocator(info)
+        },
+        locations: [
+          {
+            physicalLocation: {
+              artifactLocation: {
+                uri: toPosix(
+                  path.relative(process.cwd(), path.join(baseDir, info.location.file))
+                )
+              },
+              region: {
+                startLine: info.location.line,
+                startColumn: info.location.column
+              }
+            }
+          }
+        ],
+        // Stable across edits that move the element
+        partialFingerprints: { locatorKey: `${file}#${key}` }
+      })
+    }
+  }
+
+  return {
+    $schema: 'https://json.schemastore.org/sarif-2.1.0.json',
+    version: '2.1.0',
+    runs: [
+      {
+        tool: { driver: { name: 'locator-extractor', rules } },
+        results
+      }
+    ]
+  }
+}
+
+// Fallback XPaths are only generated for elements without stable attributes
+function isMissingTestId(info: LocatorInfo): boolean {
+  return info.type === 'xpath'
+}
+
+function describeFragileLocator(info: LocatorInfo): string {
+  return `<${info.element ?? 'element'}> is only located by ${info.type} "${
+    info.rawValue
+  }" (${info.selector}), which is fragile`
+}
+
+function describeMissingTestId(info: LocatorInfo): string {
+  const suggestion = info.warning?.match(/data-testid="([^"]*)"/)?.[1]
+  return `<${info.element ?? 'element'}> has no test id and is located by XPath ${info.selector}${
+    suggestion ? `; add data-testid="${suggestion}"` : ''
+  }`
+}
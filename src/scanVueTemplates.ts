@@ -1,6 +1,71 @@
 import fs from 'fs-extra'
 import path from 'path'
 import fg from 'fast-glob'
+import { parse as parseSfc, type SFCTemplateBlock } from '@vue/compiler-sfc'
+import type { Position, SourceLocation } from '@vue/compiler-dom'
+import { getLineAndColumn } from './utils'
+import {
+  getAncestorChain,
+  getScopeNames,
+  parseTemplate,
+  toElementAncestor,
+  type ElementAncestor,
+  type TemplateAttribute,
+  type TemplateElement
+} from './templateAst'
+import { parseJsx, parseRenderFunctions } from './scriptAst'
+import { getTemplatePreprocessor } from './templatePreprocessors'
+import {
+  alignTemplateParams,
+  getStaticText,
+  getTemplateAffixes,
+  hasHoles,
+  parseValueTemplate,
+  type ValueTemplate
+} from './valueTemplate'
+import {
+  isDeclaredProp,
+  resetComponentResolver,
+  resolveComponent
+} from './componentResolver'
+import { forwardsAttribute, getComponentMapping } from './componentPresets'
+import {
+  getProjectConfig,
+  loadProjectConfig,
+  resetProjectConfig
+} from './projectConfig'
+import { extractRoutes, getUnresolvedRouteImports } from './routeResolver'
+import {
+  listModuleConstants,
+  resetConstantResolver,
+  resolveConstantExpression
+} from './constantResolver'
+import {
+  getActiveLocale,
+  getLocales,
+  getMessageFileErrors,
+  isI18nEnabled,
+  resetI18nResolver,
+  resolveTranslation,
+  resolveTranslationKey,
+  type ResolvedTranslation
+} from './i18nResolver'
+import {
+  describeAccessibility,
+  findLabel,
+  getElementRole,
+  getLabelText,
+  type AccessibilityResolvers
+} from './accessibility'
+
+// File-relative position of an extracted element
+interface LocatorLocation {
+  file: string;
+  line: number;
+  column: number;
+  startOffset: number;
+  endOffset: number;
+}
 
 interface LocatorInfo {
   selector: string;
@@ -25,17 +90,108 @@ interface LocatorInfo {
   vueDirectives?: string[];
   customComponent?: boolean;
   parentContext?: string;
+  ancestors?: ElementAncestor[]; // Outermost first
   resolvedFromConstant?: string; // Track if this was resolved from a constant
+  resolvedConstantFile?: string; // Module the constant is defined in
+  valueTemplate?: ValueTemplate; // Bound value with runtime holes
+  translation?: LocatorTranslation;
+  accessibility?: LocatorAccessibility;
+  label?: LocatorLabel; // <label> of a form control
+  teleport?: LocatorTeleport;
+  row?: LocatorRow; // v-for row a repeated element is addressed within
+  resolvedComponent?: ComponentRendering;
+  slotName?: string; // Named or scoped slot the element is rendered into
+  templateWrapper?: string; // Enclosing <template v-if/v-for> directive
+  location?: LocatorLocation;
+}
+
+// Element a custom component renders its attributes on, from the component's
+// source or a component library preset
+interface ComponentRendering {
+  name: string; // Component tag the attribute was passed to
+  element: string;
+  role?: string;
+  file?: string; // Component source, when resolved from the project
+  library?: string; // Component library preset, e.g. 'vuetify'
+  via: string[]; // Components the attribute falls through
+}
+
+// vue-i18n message a locator's value was resolved from
+interface LocatorTranslation {
+  key: string;
+  locale: string; // Locale of rawValue and selector
+  values: Record<string, string>; // Value per locale; empty when the message has placeholders
+  templates: Record<string, ValueTemplate>; // Value template per locale, when it has placeholders
+  selectors: Record<string, string>; // Selector per locale, of the value or template
+}
+
+// Role and accessible name of a locator's element, for getByRole
+interface LocatorAccessibility {
+  role: string;
+  level?: number;
+  name?: string;
+  unique: boolean; // No other element of the file can match this role and name
+}
+
+// The <label> a form control is associated with
+interface LocatorLabel {
+  text: string;
+  association: 'for' | 'wrapping'; // <label for="id"> or a wrapping <label>
+  location: LocatorLocation;
+}
+
+// Where an element inside <Teleport>, a portal or an overlay component is
+// rendered, outside its component's DOM subtree
+interface LocatorTeleport {
+  kind: 'teleport' | 'portal' | 'component';
+  component: string; // Tag that moves the content, e.g. 'Teleport'
+  to: string; // Target selector, or the name of a <portal-target>
+  selector?: string; // Element the content renders in; the page root when undefined
+  location: LocatorLocation;
+}
+
+// Row of the nearest v-for list with a stable attribute, that a repeated
+// element is addressed relative to
+interface LocatorRow {
+  element: string;
+  type: LocatorInfo['type'];
+  rawValue: string;
+  selector: string; // Matches every row
+  valueTemplate?: ValueTemplate;
+  iterator: string; // v-for expression, e.g. 'order in orders'
+  location: LocatorLocation;
 }
 
 interface CustomComponentWarning {
   file: string;
   component: string;
   line: number;
+  location: LocatorLocation;
+  message: string;
+  componentFile?: string; // Resolved component source, when found
+  attribute?: string; // Locator attribute the component drops
+}
+
+// Diagnostic for two locators that generated the same key in one file
+interface KeyCollision {
+  file: string;
+  key: string;
+  resolvedKey: string;
+  strategy: 'element' | 'parent' | 'ordinal';
+  existing: string;
+  incoming: string;
+  message: string;
+}
+
+// Problem that kept part of a file from being extracted
+interface ExtractionDiagnostic {
+  file: string;
+  location?: LocatorLocation;
+  severity: 'error' | 'warning';
   message: string;
 }
 
-// Interface for tracking constants
+// Constant resolved from a module, for the constants listing
 interface ConstantDefinition {
   name: string;
   value: string;
@@ -66,124 +222,278 @@ const testRelevantElements = new Set([
   'li'
 ])
 
+// ARIA roles of widgets a test interacts with, for components a library
+// preset renders as a plain element, e.g. `<q-toggle>` as a div with role switch
+const interactiveRoles = new Set([
+  'button',
+  'link',
+  'checkbox',
+  'radio',
+  'switch',
+  'textbox',
+  'searchbox',
+  'combobox',
+  'listbox',
+  'option',
+  'slider',
+  'spinbutton',
+  'tab',
+  'menu',
+  'menuitem'
+])
+
 // Custom Vue component patterns
 const customComponentPattern = /^[A-Z][a-zA-Z0-9]*$/
 
-// Robust attributes in priority order
-const robustAttributes = [
-  'data-testid',
-  'data-test-id',
-  'data-test',
-  'id',
-  'name',
-  'role',
-  'aria-label',
-  'placeholder'
-]
+// Robust attributes in priority order: the project's test id attributes,
+// then the other robust attributes
+function getRobustAttributes(): string[] {
+  const { testIdAttributes, robustAttributes } = getProjectConfig()
+  return [...new Set([...testIdAttributes, ...robustAttributes])]
+}
+
+// Document-level HTML elements that never hold test-relevant content
+const nonRenderedElements = new Set([
+  'html',
+  'head',
+  'meta',
+  'title',
+  'link',
+  'base',
+  'script',
+  'style'
+])
+
+// Vue built-ins that render no element of their own: their attributes never
+// reach the DOM, so locators built from them match nothing
+const fragmentElements = new Set([
+  'slot',
+  'template',
+  'component',
+  'transition',
+  'Transition',
+  'keep-alive',
+  'KeepAlive'
+])
+
+// Components of Vue, vue-router and vue-i18n: registered globally and never
+// in the project's sources, so they are not reported as unresolved
+const frameworkComponents = new Set([
+  'transition-group',
+  'TransitionGroup',
+  'suspense',
+  'Suspense',
+  'router-link',
+  'RouterLink',
+  'router-view',
+  'RouterView',
+  'i18n-t',
+  'I18nT',
+  'i18n',
+  'i18n-n',
+  'I18nN',
+  'i18n-d',
+  'I18nD'
+])
+
+// Components that render their children elsewhere in the DOM: Vue 3's
+// <Teleport> and portal-vue's <portal> / <MountingPortal>
+const teleportTags = new Set(['Teleport', 'teleport'])
+const portalTags = new Set(['portal', 'Portal', 'MountingPortal', 'mounting-portal'])
+const portalTargetTags = new Set(['portal-target', 'PortalTarget'])
+
+// Teleport targets that are the page root
+const pageRootSelectors = new Set(['body', 'html', ':root'])
+
+// <portal-target> selectors by name, collected across files
+const portalTargets: Map<string, string | undefined> = new Map()
 
-// Vue directives that make elements dynamic or conditional
-const dynamicDirectives = ['v-for', 'v-if', 'v-else-if', 'v-show', 'v-model']
+// Progress output of a scan, from the caller's logger
+let log: (...values: unknown[]) => void = () => {}
 
-// Global constants registry
-const constantsRegistry: Map<string, ConstantDefinition> = new Map()
+// Vue directives that make elements conditional
+const conditionalDirectives = ['v-if', 'v-else-if', 'v-else', 'v-show']
 
-function detectVueDirectives(attributeString: string): {
+// Project components each file renders, file → component files
+const componentUsages: Map<string, Set<string>> = new Map()
+
+// ARIA role values, used to classify constants
+const ariaRoles = new Set([
+  'button',
+  'link',
+  'textbox',
+  'heading',
+  'banner',
+  'navigation',
+  'main',
+  'complementary',
+  'contentinfo',
+  'search',
+  'form',
+  'dialog',
+  'alert',
+  'status',
+  'log',
+  'marquee',
+  'timer',
+  'alertdialog',
+  'application',
+  'article',
+  'cell',
+  'columnheader',
+  'definition',
+  'directory',
+  'document',
+  'group',
+  'img',
+  'list',
+  'listitem',
+  'math',
+  'note',
+  'presentation',
+  'region',
+  'row',
+  'rowgroup',
+  'rowheader',
+  'separator',
+  'slider',
+  'spinbutton',
+  'table',
+  'tablist',
+  'tab',
+  'tabpanel',
+  'toolbar',
+  'tooltip',
+  'tree',
+  'treegrid',
+  'treeitem'
+])
+
+/**
+ * Own directives of an element, and whether it is repeated or conditional
+ * anywhere along its ancestor chain (including itself)
+ */
+function detectVueDirectives(
+  element: TemplateElement,
+  ancestors: ElementAncestor[] = getAncestorChain(element)
+): {
   directives: string[];
   isDynamic: boolean;
   isConditional: boolean;
 } {
-  const directives: string[] = []
-  let isDynamic = false
-  let isConditional = false
+  const directives = [...element.directives]
+  const chain = [...ancestors, toElementAncestor(element)]
 
-  // Check for Vue directives
-  const directiveMatches = attributeString.matchAll(/(v-[\w-]+|@\w+|:\w+)/g)
-  for (const match of directiveMatches) {
-    directives.push(match[1])
+  const isDynamic = chain.some(
+    (ancestor) => 'v-for' in ancestor.renderDirectives
+  )
+  const isConditional = chain.some((ancestor) =>
+    conditionalDirectives.some((dir) => dir in ancestor.renderDirectives)
+  )
 
-    if (['v-for'].includes(match[1])) {
-      isDynamic = true
-    }
+  return { directives, isDynamic, isConditional }
+}
 
-    if (['v-if', 'v-else-if', 'v-show'].includes(match[1])) {
-      isConditional = true
-    }
+function toLocatorLocation(
+  file: string,
+  loc: SourceLocation
+): LocatorLocation {
+  return {
+    file: file.replace(/\\/g, '/'),
+    line: loc.start.line,
+    column: loc.start.column,
+    startOffset: loc.start.offset,
+    endOffset: loc.end.offset
+  }
+}
+
+/**
+ * Location of a match inside JS/TS source content
+ */
+function getContentLocation(
+  file: string,
+  content: string,
+  startOffset: number,
+  endOffset: number
+): LocatorLocation {
+  const { line, column } = getLineAndColumn(content, startOffset)
+  return {
+    file: file.replace(/\\/g, '/'),
+    line,
+    column,
+    startOffset,
+    endOffset
   }
+}
 
-  return { directives, isDynamic, isConditional }
+/**
+ * Format a location as `file.vue:42:7` so editors can jump to it
+ */
+export function formatLocation(location: LocatorLocation): string {
+  return `${location.file}:${location.line}:${location.column}`
+}
+
+/**
+ * Whether an element is part of the rendered page: not <head> content and
+ * not a Vue built-in like <slot> or <template> that renders no element
+ */
+function isRenderedElement(element: TemplateElement): boolean {
+  if (nonRenderedElements.has(element.tag) || fragmentElements.has(element.tag)) {
+    return false
+  }
+  for (let parent = element.parent; parent; parent = parent.parent) {
+    if (parent.tag === 'head') return false
+  }
+  return true
 }
 
 function isCustomComponent(tagName: string): boolean {
   return customComponentPattern.test(tagName) || tagName.includes('-')
 }
 
-function analyzeElementContext(
-  content: string,
-  matchIndex: number
-): {
+/**
+ * Format an ancestor as its opening tag, e.g. `<li v-for="order in orders" :key="order.id">`
+ */
+function formatAncestor(ancestor: ElementAncestor): string {
+  const directives = Object.entries(ancestor.renderDirectives).map(
+    ([name, expression]) => (expression ? `${name}="${expression}"` : name)
+  )
+  const key = ancestor.attributes.key
+  if (key) directives.push(`:key="${key}"`)
+  return `<${[ancestor.tag, ...directives].join(' ')}>`
+}
+
+/**
+ * The element's ancestor chain, and a description of the nearest ancestor
+ * that controls whether or how often the element renders
+ */
+function analyzeElementContext(element: TemplateElement): {
   parentContext: string;
-  ancestorDirectives: string[];
-  lineNumber: number;
+  ancestors: ElementAncestor[];
 } {
-  // Get line number
-  const beforeMatch = content.substring(0, matchIndex)
-  const lineNumber = (beforeMatch.match(/\n/g) || []).length + 1
-
-  // Find parent context by looking backwards for containing elements
-  let searchIndex = matchIndex
-  const ancestorDirectives: string[] = []
-  let parentContext = ''
-  let depth = 0
-
-  while (searchIndex > 0) {
-    const char = content[searchIndex]
-    if (char === '>') depth++
-    if (char === '<') {
-      depth--
-      if (depth < 0) {
-        // Found a parent tag
-        const tagStart = searchIndex
-        let tagEnd = searchIndex
-        while (tagEnd < content.length && content[tagEnd] !== '>') {
-          tagEnd++
-        }
-
-        const parentTag = content.substring(tagStart, tagEnd + 1)
-        const tagMatch = parentTag.match(/<(\w+)([^>]*)/)
-
-        if (tagMatch) {
-          const tagName = tagMatch[1]
-          const attributes = tagMatch[2]
-
-          // Check for Vue directives in parent
-          const directiveMatches = attributes.matchAll(/(v-[\w-]+)/g)
-          for (const match of directiveMatches) {
-            ancestorDirectives.push(match[1])
-          }
-
-          if (dynamicDirectives.some((dir) => attributes.includes(dir))) {
-            parentContext = `inside ${tagName} with dynamic directives`
-            break
-          }
-        }
-      }
-    }
-    searchIndex--
+  const ancestors = getAncestorChain(element)
+  const nearest = [...ancestors]
+    .reverse()
+    .find((ancestor) => Object.keys(ancestor.renderDirectives).length > 0)
+
+  return {
+    parentContext: nearest ? `inside ${formatAncestor(nearest)}` : '',
+    ancestors
   }
-
-  return { parentContext, ancestorDirectives, lineNumber }
 }
 
+/**
+ * Robustness of an element's locator and its relevance for tests. `role` is
+ * the ARIA role a component renders the element with, e.g. from its preset
+ */
 function classifyElement(
   element: string,
-  attributes: Record<string, string>
+  attributes: Record<string, string>,
+  role?: string
 ): {
   robustness: 'robust' | 'fragile';
   testRelevance: 'high' | 'medium' | 'low';
 } {
-  // Enhanced: Check if element can use any Playwright getBy methods
-  const hasRobustAttribute = robustAttributes.some((attr) => attributes[attr])
-
   // Additional getBy* method compatible attributes that should be considered robust
   const getByCompatibleAttributes = [
     'data-testid', // getByTestId()
@@ -195,7 +505,8 @@ function classifyElement(
     'aria-label', // getByLabel()
     'placeholder', // getByPlaceholder()
     'title', // getByTitle()
-    'alt' // getByAltText()
+    'alt', // getByAltText()
+    ...getRobustAttributes() // The project's own test id and robust attributes
   ]
 
   // Check if element has any getBy* compatible attributes
@@ -235,7 +546,7 @@ function classifyElement(
         isInteractiveElementWithText
       ) {
         robustness = 'robust'
-        console.log(
+        log(
           `   🎯 XPath classified as robust: ${xpathValue.substring(
             0,
             50
@@ -251,26 +562,7 @@ function classifyElement(
   }
 
   // Determine test relevance based on element type and attributes
-  let testRelevance: 'high' | 'medium' | 'low' = 'low'
-
-  if (testRelevantElements.has(element)) {
-    // Interactive elements are high relevance
-    if (
-      ['button', 'input', 'textarea', 'select', 'a', 'form'].includes(element)
-    ) {
-      testRelevance = 'high'
-    }
-    // Headers and structural elements are medium relevance
-    else if (
-      ['h1', 'h2', 'h3', 'h4', 'h5', 'h6', 'table', 'tr'].includes(element)
-    ) {
-      testRelevance = 'medium'
-    }
-    // Other elements are medium relevance
-    else {
-      testRelevance = 'medium'
-    }
-  }
+  let testRelevance = getElementTestRelevance(element, role)
 
   // Elements with getBy* compatible attributes get higher relevance
   if (hasGetByCompatible && testRelevance === 'low') {
@@ -318,23 +610,79 @@ function generateFragileWarning(
   )}`
 }
 
-export async function extractLocatorsFromVue(baseDir: string) {
-  // Clear previous constants registry
-  constantsRegistry.clear()
+/**
+ * Options of a scan. `include` and `exclude` are globs relative to the
+ * project that select the files locators are extracted from; every script
+ * is still read to resolve constants, components, routes and messages
+ */
+export interface ExtractionOptions {
+  locale?: string; // vue-i18n locale to resolve translated text in
+  configFile?: string; // Config file; looked up in the project when omitted
+  include?: string[];
+  exclude?: string[];
+  log?: (...values: unknown[]) => void; // Progress output; none when omitted
+}
+
+export async function extractLocatorsFromVue(
+  baseDir: string,
+  options: ExtractionOptions = {}
+) {
+  log = options.log ?? (() => {})
+
+  // Attributes, elements and ignore globs follow the project's config
+  const config = await loadProjectConfig(baseDir, options.configFile)
+  resetProjectConfig(config)
+
+  // Constants are resolved per module, relative to this project
+  resetConstantResolver(baseDir)
+
+  // Locators are extracted from the selected files only
+  const isSelected = await getFileSelection(baseDir, options)
 
   // Scan Vue files and also JS/TS files that might generate elements
-  const vueFiles = await fg(['**/*.vue'], {
+  const vueFiles = (await fg(['**/*.vue'], {
+    cwd: baseDir,
+    absolute: true,
+    ignore: [
+      '**/node_modules/**',
+      '**/dist/**',
+      '**/.output/**',
+      '**/build/**',
+      ...config.ignore
+    ]
+  })).filter(isSelected)
+
+  const allJsFiles = await fg(['**/*.{js,ts}', '!**/*.d.ts'], {
     cwd: baseDir,
     absolute: true,
     ignore: [
       '**/node_modules/**',
       '**/dist/**',
       '**/.output/**',
-      '**/build/**'
+      '**/build/**',
+      '**/tests/**',
+      '**/test/**',
+      '**/__tests__/**',
+      ...config.ignore
     ]
   })
 
-  const jsFiles = await fg(['**/*.{js,ts}', '!**/*.d.ts'], {
+  // Plain HTML pages go through the template pipeline as a whole
+  const htmlFiles = (await fg(['**/*.html'], {
+    cwd: baseDir,
+    absolute: true,
+    ignore: [
+      '**/node_modules/**',
+      '**/dist/**',
+      '**/.output/**',
+      '**/build/**',
+      '**/coverage/**',
+      ...config.ignore
+    ]
+  })).filter(isSelected)
+
+  // JSX/TSX render functions are parsed into the same element tree
+  const allJsxFiles = await fg(['**/*.{jsx,tsx}'], {
     cwd: baseDir,
     absolute: true,
     ignore: [
@@ -344,70 +692,146 @@ export async function extractLocatorsFromVue(baseDir: string) {
       '**/build/**',
       '**/tests/**',
       '**/test/**',
-      '**/__tests__/**'
+      '**/__tests__/**',
+      ...config.ignore
     ]
   })
 
-  console.log(
-    `🔍 Found ${vueFiles.length} Vue files and ${jsFiles.length} JS/TS files:`
+  // Every script is read to resolve components, routes and messages
+  const scriptFiles = [...allJsFiles, ...allJsxFiles]
+  const jsFiles = allJsFiles.filter(isSelected)
+  const jsxFiles = allJsxFiles.filter(isSelected)
+
+  log(
+    `🔍 Found ${vueFiles.length} Vue files, ${htmlFiles.length} HTML files, ${jsxFiles.length} JSX/TSX files and ${jsFiles.length} JS/TS files:`
   );
-  [...vueFiles, ...jsFiles].forEach((file) => {
+  [...vueFiles, ...htmlFiles, ...jsxFiles, ...jsFiles].forEach((file) => {
     const relative = path.relative(baseDir, file)
-    console.log(`   📄 ${relative}`)
+    log(`   📄 ${relative}`)
   })
 
-  // First pass: Extract constants from all files
-  console.log('\n🔧 SCANNING FOR CONSTANTS:')
-  for (const file of [...vueFiles, ...jsFiles]) {
-    const relative = path.relative(baseDir, file)
-    const content = await fs.readFile(file, 'utf-8')
-    extractConstants(content, relative)
+  // Global component registrations live in the entry scripts
+  resetComponentResolver(baseDir, scriptFiles)
+  componentUsages.clear()
+  portalTargets.clear()
+
+  // Translated text resolves in the configured locale when messages exist
+  await resetI18nResolver(baseDir, scriptFiles, options.locale)
+  if (isI18nEnabled()) {
+    log(
+      `\n🌐 FOUND vue-i18n MESSAGES: ${getLocales().join(', ')} (resolving in ${getActiveLocale()})`
+    )
+  }
+
+  // First pass: List the constants each module declares
+  log('\n🔧 SCANNING FOR CONSTANTS:')
+  const constants: ConstantDefinition[] = []
+  for (const file of [...vueFiles, ...jsxFiles, ...jsFiles]) {
+    constants.push(...extractConstants(path.relative(baseDir, file)))
   }
 
-  if (constantsRegistry.size > 0) {
-    console.log(`\n📋 FOUND ${constantsRegistry.size} CONSTANTS:`)
-    constantsRegistry.forEach((constant) => {
-      console.log(
+  if (constants.length > 0) {
+    log(`\n📋 FOUND ${constants.length} CONSTANTS:`)
+    constants.forEach((constant) => {
+      log(
         `   🔧 ${constant.name} = "${constant.value}" (${constant.type}) - ${constant.file}`
       )
     })
   } else {
-    console.log('   ⚠️  No constants found')
+    log('   ⚠️  No constants found')
   }
 
   const groupedLocators: Record<string, Record<string, LocatorInfo>> = {}
   const warnings: string[] = []
   const customComponentWarnings: CustomComponentWarning[] = []
+  const keyCollisions: KeyCollision[] = []
+  const diagnostics: ExtractionDiagnostic[] = []
+
+  // Unreadable message files leave their translations unresolved
+  for (const error of getMessageFileErrors()) {
+    const file = path.relative(baseDir, error.file).replace(/\\/g, '/')
+    diagnostics.push({
+      file,
+      severity: 'warning',
+      message: `Could not read messages from ${file}: ${error.message}`
+    })
+  }
 
   // Second pass: Process Vue files
-  console.log('\n🔍 PROCESSING TEMPLATES:')
+  log('\n🔍 PROCESSING TEMPLATES:')
   for (const file of vueFiles) {
     const relative = path.relative(baseDir, file)
     const keyGroup = relative.replace(/\\/g, '/')
     const content = await fs.readFile(file, 'utf-8')
 
-    console.log(`\n🔍 Processing Vue file: ${relative}`)
+    log(`\n🔍 Processing Vue file: ${relative}`)
 
-    // Extract the <template> section from Vue files
-    const templateMatch = content.match(
-      /<template[^>]*>([\s\S]*?)<\/template>/
-    )
-    if (!templateMatch) {
-      console.log('   ⚠️  No <template> section found, skipping')
+    // Extract the top-level <template> block, including nested <template> tags
+    const { descriptor, errors } = parseSfc(content, { filename: relative })
+    errors.forEach((error) => {
+      log(`   ⚠️  SFC parse error: ${error.message}`)
+    })
+    if (!descriptor.template) {
+      log('   ⚠️  No <template> section found, skipping')
       continue
     }
 
-    const templateContent = templateMatch[1]
-    console.log(
-      `   ✅ Found <template> section (${templateContent.length} chars)`
+    log(
+      `   ✅ Found <template> section (${descriptor.template.content.length} chars)`
+    )
+
+    // Compile lang="pug" and other pre-processed templates to HTML first
+    const preprocessed = preprocessTemplate(
+      descriptor.template,
+      relative,
+      diagnostics
+    )
+    if (!preprocessed) continue
+
+    await processTemplateContent(
+      preprocessed.templateContent,
+      keyGroup,
+      groupedLocators,
+      warnings,
+      customComponentWarnings,
+      keyCollisions,
+      relative,
+      descriptor.template.loc.start,
+      preprocessed.preprocessedSource
     )
+  }
+
+  for (const file of htmlFiles) {
+    const relative = path.relative(baseDir, file)
+    const keyGroup = relative.replace(/\\/g, '/')
+    const content = await fs.readFile(file, 'utf-8')
+
+    log(`\n🔍 Processing HTML file: ${relative}`)
 
     await processTemplateContent(
-      templateContent,
+      content,
       keyGroup,
       groupedLocators,
       warnings,
       customComponentWarnings,
+      keyCollisions,
+      relative
+    )
+  }
+
+  for (const file of jsxFiles) {
+    const relative = path.relative(baseDir, file)
+    const keyGroup = relative.replace(/\\/g, '/')
+    const content = await fs.readFile(file, 'utf-8')
+
+    log(`\n🔍 Processing JSX/TSX file: ${relative}`)
+
+    await processJsxContent(
+      content,
+      keyGroup,
+      groupedLocators,
+      customComponentWarnings,
+      keyCollisions,
       relative
     )
   }
@@ -418,202 +842,650 @@ export async function extractLocatorsFromVue(baseDir: string) {
     const keyGroup = `${relative.replace(/\\/g, '/')} (JS/TS)`
     const content = await fs.readFile(file, 'utf-8')
 
-    console.log(`\n🔍 Processing JS/TS file: ${relative}`)
+    log(`\n🔍 Processing JS/TS file: ${relative}`)
 
     await processJavaScriptContent(
       content,
       keyGroup,
       groupedLocators,
-      warnings,
+      customComponentWarnings,
+      keyCollisions,
       relative
     )
   }
 
-  return { groupedLocators, warnings, customComponentWarnings }
+  // Portal content renders in the <portal-target> of the same name
+  for (const locators of Object.values(groupedLocators)) {
+    for (const info of Object.values(locators)) {
+      const teleport = info.teleport
+      if (teleport?.kind === 'portal' && !teleport.selector) {
+        teleport.selector = portalTargets.get(teleport.to)
+      }
+    }
+  }
+
+  // Routes are composed from their components and the components those use
+  const routes = extractRoutes(baseDir, scriptFiles)
+  if (routes.length > 0) {
+    log(`\n🧭 FOUND ${routes.length} ROUTES:`)
+    routes.forEach((route) => {
+      log(
+        `   🧭 ${route.path}${route.name ? ` (${route.name})` : ''} → ${route.components.join(', ')}`
+      )
+    })
+  }
+
+  // Lazy route components whose import could not be followed
+  for (const { file, specifier } of getUnresolvedRouteImports()) {
+    const routerFile = path.relative(baseDir, file).replace(/\\/g, '/')
+    const message = `Could not resolve route component import('${specifier}') in ${routerFile}`
+    diagnostics.push({ file: routerFile, severity: 'warning', message })
+    log(`   ⚠️  ${message}`)
+  }
+
+  return {
+    groupedLocators,
+    warnings,
+    customComponentWarnings,
+    keyCollisions,
+    diagnostics,
+    constants,
+    routes,
+    i18n: { locale: getActiveLocale(), locales: getLocales() },
+    config,
+    componentUsages: Object.fromEntries(
+      [...componentUsages].map(([file, used]) => [file, [...used]])
+    )
+  }
 }
 
 /**
- * Normalize template content for better parsing
+ * Whether a file is selected by the `include` and `exclude` globs of a scan
  */
-function normalizeTemplateForParsing(templateContent: string): string {
-  const normalized = templateContent
-    // Remove Vue comments but preserve structure
-    .replace(/<!--[\s\S]*?-->/g, '')
-    // Preserve single spaces around attributes - don't collapse to nothing
-    .replace(/\s*\n\s*/g, ' ')
-    // Normalize excessive whitespace but keep single spaces
-    .replace(/\s{2,}/g, ' ')
-    // Keep proper attribute formatting - don't insert spaces in attribute names
-    .replace(/\s*=\s*/g, '=')
-    // Ensure space before attributes but don't break attribute names
-    .replace(/([>\s])([a-zA-Z:-]+)=/g, '$1 $2=')
-
-  return normalized.trim()
+async function getFileSelection(
+  baseDir: string,
+  options: ExtractionOptions
+): Promise<(file: string) => boolean> {
+  const match = async (patterns: string[] | undefined) =>
+    patterns && patterns.length > 0
+      ? new Set(await fg(patterns, { cwd: baseDir, absolute: true }))
+      : undefined
+
+  const included = await match(options.include)
+  const excluded = await match(options.exclude)
+  return (file) =>
+    (!included || included.has(file)) && !excluded?.has(file)
 }
 
 /**
- * Extract base from template literal for partial matching
+ * Resolve the HTML to extract from for a template block, running the
+ * preprocessor registered for its `lang`. Returns null when the template
+ * cannot be turned into HTML, after recording a diagnostic
  */
-function extractTemplateLiteralBase(value: string): string {
-  // Extract the static part before ${...}
-  const beforeTemplate = value.split('${')[0]
-  if (beforeTemplate) {
-    return beforeTemplate
+function preprocessTemplate(
+  template: SFCTemplateBlock,
+  filename: string,
+  diagnostics: ExtractionDiagnostic[]
+): { templateContent: string; preprocessedSource?: string } | null {
+  const lang = template.lang
+  if (!lang || lang === 'html') {
+    return { templateContent: template.content }
+  }
+
+  const location = toLocatorLocation(filename, template.loc)
+  const preprocessor = getTemplatePreprocessor(lang)
+  if (!preprocessor) {
+    const message = `Unsupported template lang="${lang}" at ${formatLocation(
+      location
+    )} — no preprocessor registered, template not extracted`
+    diagnostics.push({ file: location.file, location, severity: 'error', message })
+    log(`   ❌ ${message}`)
+    return null
   }
 
-  // Extract the static part after ${...}
-  const afterTemplate = value.split('}').pop()
-  if (afterTemplate) {
-    return afterTemplate
+  try {
+    const templateContent = preprocessor.compile(template.content, filename)
+    log(`   🔧 Compiled lang="${lang}" template to HTML`)
+    return { templateContent, preprocessedSource: template.content }
+  } catch (error) {
+    const message = `Failed to compile lang="${lang}" template at ${formatLocation(
+      location
+    )}: ${error instanceof Error ? error.message : error}`
+    diagnostics.push({ file: location.file, location, severity: 'error', message })
+    log(`   ❌ ${message}`)
+    return null
   }
+}
 
-  return value
+/**
+ * Resolve constants referenced in `element`'s template. A `v-for` alias or
+ * slot prop shadows a module constant of the same name, so references to
+ * those stay unresolved
+ */
+function createConstantLookup(element: TemplateElement, filename: string) {
+  const scope = getScopeNames(element)
+  return (reference: string) => {
+    const identifiers = reference.match(/(?<![\w$.])[A-Za-z_$][\w$]*/g) ?? []
+    if (identifiers.some((identifier) => scope.has(identifier))) return undefined
+    return resolveConstantExpression(reference, filename)
+  }
 }
 
 /**
- * Enhanced element extraction with better multi-line and Vue support
+ * Turn a bound attribute expression into the value used for the locator.
+ * Literals and constants resolve to static text; anything left is a hole
+ * of the returned value template
  */
-const extractElementWithAttributesEnhanced = (
-  match: RegExpMatchArray,
-  content: string
+function resolveBoundValue(
+  expression: string,
+  element: TemplateElement,
+  filename: string
 ): {
-  element: string;
-  attributes: Record<string, string> & { fullAttributeString?: string };
-} => {
-  const matchIndex = match.index || 0
-
-  // Look backwards to find the opening tag - enhanced for multi-line
-  let tagStart = matchIndex
-  let depth = 0
-  while (tagStart > 0) {
-    const char = content[tagStart]
-    if (char === '>') depth++
-    if (char === '<') {
-      if (depth === 0) break
-      depth--
+  value: string;
+  template?: ValueTemplate;
+  constantName?: string;
+  constantFile?: string;
+  translation?: ResolvedTranslation;
+  translationTemplates?: Record<string, ValueTemplate>;
+} {
+  let constantName: string | undefined
+  let constantFile: string | undefined
+  const resolveConstant = createConstantLookup(element, filename)
+  const resolveKey = (reference: string) => resolveConstant(reference)?.value
+
+  // A whole `$t(...)` value becomes its message, placeholders as holes
+  const translation = resolveTranslation(expression, resolveKey)
+  const source = translation ? translation.expression : expression
+
+  const resolveStatic = (reference: string) => {
+    // Translations inside a larger expression fold in when static
+    const locale = getActiveLocale()
+    const nested = resolveTranslation(reference, resolveKey)
+    if (nested && locale && nested.messages[locale] !== undefined) {
+      return nested.messages[locale]
     }
-    tagStart--
-  }
-
-  // Look forwards to find the closing > - enhanced for multi-line
-  let tagEnd = matchIndex
-  depth = 0
-  while (tagEnd < content.length) {
-    const char = content[tagEnd]
-    if (char === '<') depth++
-    if (char === '>') {
-      if (depth === 0) break
-      depth--
+
+    const constant = resolveConstant(reference)
+    if (!constant) return undefined
+    constantName = constantName || constant.name
+    constantFile = constantFile || constant.file
+    return constant.value
+  }
+  const template = parseValueTemplate(source, resolveStatic)
+
+  // Messages with placeholders keep their template in every locale, taking
+  // the same parameters as the active locale's
+  let translationTemplates: Record<string, ValueTemplate> | undefined
+  if (translation && hasHoles(template)) {
+    translationTemplates = {}
+    for (const [locale, localeSource] of Object.entries(translation.expressions)) {
+      const aligned = alignTemplateParams(
+        parseValueTemplate(localeSource, resolveStatic),
+        template
+      )
+      if (aligned) translationTemplates[locale] = aligned
     }
-    tagEnd++
   }
 
-  const tagContent = content.substring(tagStart, tagEnd + 1)
+  return {
+    value: template.pattern,
+    template: hasHoles(template) ? template : undefined,
+    constantName,
+    constantFile,
+    translation,
+    translationTemplates
+  }
+}
 
-  // Enhanced regex to handle Vue components and self-closing tags
-  const tagMatch = tagContent.match(/<([a-zA-Z][a-zA-Z0-9-]*)[^>]*\/?>/s)
+/**
+ * Text an element renders directly: static text, `{{ $t('key') }}`
+ * interpolations, `v-t` and `<i18n-t keypath>` children, in the active
+ * locale. The translation is returned when it makes up the whole text;
+ * `dynamic` is set when part of the text is only known at runtime
+ */
+function resolveElementText(
+  element: TemplateElement,
+  filename: string
+): { text: string; translation?: ResolvedTranslation; dynamic: boolean } {
+  const resolveConstant = createConstantLookup(element, filename)
+  const resolveKey = (reference: string) => resolveConstant(reference)?.value
 
-  if (!tagMatch) return { element: 'element', attributes: {} }
+  const locale = getActiveLocale()
+  let dynamic = ['v-text', 'v-html'].some((directive) =>
+    element.directives.includes(directive)
+  )
 
-  const element = tagMatch[1]
-  const attributeString = tagContent.substring(element.length + 1, -1)
+  const translations: ResolvedTranslation[] = []
+  for (const expression of element.interpolations) {
+    const translation = resolveTranslation(expression, resolveKey)
+    if (translation) translations.push(translation)
+    if (!locale || translation?.messages[locale] === undefined) dynamic = true
+  }
 
-  // Enhanced attribute parsing with better Vue directive support
-  const attributes: Record<string, string> & { fullAttributeString?: string } =
-    {
-      fullAttributeString: attributeString
-    }
+  // v-t="'nav.orders'" or v-t="{ path: 'nav.orders' }"
+  const directiveKey = /^\s*(?:\{\s*path\s*:\s*)?(['"`])([^'"`]+)\1/.exec(
+    element.directiveExpressions['v-t'] || ''
+  )?.[2]
+  const directiveTranslation =
+    directiveKey && resolveTranslationKey(directiveKey)
+  if (directiveTranslation) translations.push(directiveTranslation)
+
+  // <i18n-t keypath="..."> without a tag renders its text into this element
+  for (const child of element.children) {
+    if (!['i18n-t', 'I18nT', 'i18n'].includes(child.tag)) continue
+    if (child.attributes.tag) continue
+    const key = child.attributes.keypath || child.attributes.path
+    const translation =
+      key && !key.isBound ? resolveTranslationKey(key.value) : undefined
+    if (translation) translations.push(translation)
+  }
 
-  // Parse all attribute patterns including Vue directives
-  const attributePatterns = [
-    // Standard attributes: name="value"
-    /(\w+(?:-\w+)*)\s*=\s*["']([^"']*)["']/g,
-    // Vue dynamic attributes: :name="value" or v-bind:name="value"
-    /([@:][\w-]+|v-bind:[\w-]+|v-on:[\w-]+)\s*=\s*["']([^"']*)["']/g,
-    // Vue directives without values: v-if, v-show, etc.
-    /(v-[\w-]+)(?:\s|>|$)/g
-  ]
+  // Messages with placeholders contribute the text before the first one
+  const translatedTexts = translations
+    .map((translation) => {
+      if (locale && translation.messages[locale] !== undefined) {
+        return translation.messages[locale]
+      }
+      const template = parseValueTemplate(translation.expression, () => undefined)
+      return getTemplateAffixes(template).prefix
+    })
+    .filter(Boolean)
+
+  const [only] = translations
+  return {
+    text: [element.textContent, ...translatedTexts].filter(Boolean).join(' '),
+    translation:
+      !element.textContent &&
+      translations.length === 1 &&
+      Object.keys(only.messages).length > 0
+        ? only
+        : undefined,
+    dynamic
+  }
+}
 
-  for (const pattern of attributePatterns) {
-    const matches = [...attributeString.matchAll(pattern)]
-    for (const attrMatch of matches) {
-      attributes[attrMatch[1]] = attrMatch[2] || ''
+/**
+ * Read attribute values and text the way a rendered page would show them:
+ * bound values that depend on runtime state are unknown
+ */
+function getAccessibilityResolvers(filename: string): AccessibilityResolvers {
+  return {
+    getAttribute: (element, name) => {
+      const attribute = element.attributes[name]
+      if (!attribute) return undefined
+      if (!attribute.isBound) return attribute.value
+      const bound = resolveBoundValue(attribute.value, element, filename)
+      return bound.template ? undefined : bound.value
+    },
+    getText: (element) => {
+      const { text, dynamic } = resolveElementText(element, filename)
+      return dynamic ? undefined : text
     }
   }
-
-  return { element, attributes }
 }
 
-async function processJavaScriptContent(
-  content: string,
-  keyGroup: string,
-  groupedLocators: Record<string, Record<string, LocatorInfo>>,
-  warnings: string[],
+/**
+ * Role and accessible name of every element of a file, with whether the
+ * combination singles the element out. Components take the role of the
+ * element their attributes render on
+ */
+function collectAccessibility(
+  elements: TemplateElement[],
   filename: string
-) {
-  console.log(
-    '   🔍 Scanning for createElement patterns and template strings...'
-  )
-
-  // Pattern for Vue h() function calls and createElement
-  const createElementPatterns = [
-    /h\(\s*['"`](\w+)['"`]\s*,\s*{([^}]*)}/g,
-    /createElement\(\s*['"`](\w+)['"`]\s*,\s*{([^}]*)}/g
-  ]
-
-  // Pattern for template strings with HTML
-  const templateStringPatterns = [
-    /`[^`]*<(\w+)[^>]*([^`]*)`/g,
-    /'[^']*<(\w+)[^>]*([^']*)'|"[^"]*<(\w+)[^>]*([^"]*)"/g
-  ]
-
-  let foundElements = 0
+): Map<TemplateElement, LocatorAccessibility> {
+  const resolvers = getAccessibilityResolvers(filename)
+
+  const described = elements.map((element) => {
+    // Attributes fall through to the component's element; an unresolved
+    // component only has the role it is given explicitly
+    let rendered = element
+    let presetRole: string | undefined
+    if (isCustomComponent(element.tag)) {
+      const component = resolveComponent(element.tag, filename)
+      const preset = component ? undefined : getComponentMapping(element.tag)
+      presetRole = preset?.mapping.role
+      rendered = {
+        ...element,
+        tag: component?.target?.tag ?? preset?.mapping.element ?? ''
+      }
+    }
+    const role =
+      presetRole && !element.attributes.role
+        ? { role: presetRole }
+        : getElementRole(rendered, resolvers)
+
+    let repeated = false
+    for (
+      let node: TemplateElement | undefined = element;
+      node;
+      node = node.parent
+    ) {
+      if (node.directives.includes('v-for')) repeated = true
+    }
 
-  // Process createElement patterns
-  for (const pattern of createElementPatterns) {
-    const matches = [...content.matchAll(pattern)]
-    for (const match of matches) {
-      const element = match[1]
-      const propsString = match[2]
+    return {
+      element,
+      repeated,
+      accessibility: describeAccessibility(element, elements, resolvers, role)
+    }
+  })
 
-      // Extract test-relevant attributes from props
-      const testIdMatch = propsString.match(
-        /['"`]?data-testid['"`]?\s*:\s*['"`]([^'"`]+)['"`]/
-      )
-      const idMatch = propsString.match(
-        /['"`]?id['"`]?\s*:\s*['"`]([^'"`]+)['"`]/
+  // getByRole matches names case-insensitively by substring, and a name only
+  // known at runtime could match anything
+  const collection = new Map<TemplateElement, LocatorAccessibility>()
+  for (const { element, repeated, accessibility } of described) {
+    if (!accessibility) continue
+    const { role, level, name } = accessibility
+    const lowerName = name?.toLowerCase()
+    const unique =
+      Boolean(lowerName) &&
+      !repeated &&
+      !described.some(
+        (other) =>
+          other.element !== element &&
+          other.accessibility?.role === role &&
+          (other.accessibility.dynamicName ||
+            Boolean(
+              lowerName &&
+                other.accessibility.name?.toLowerCase().includes(lowerName)
+            ))
       )
+    collection.set(element, { role, level, name, unique })
+  }
+  return collection
+}
 
-      if (testIdMatch || idMatch) {
-        const rawValue = testIdMatch ? testIdMatch[1] : idMatch![1]
-        const type = testIdMatch ? 'data-testid' : 'id'
-        const selector =
-          type === 'data-testid'
-            ? `[data-testid="${rawValue}"]`
-            : `#${rawValue}`
-
-        const key = generateEnhancedKey(rawValue, type as any, false, false)
+/**
+ * The closest ancestor that renders an element outside its component's DOM
+ * subtree: <Teleport to>, a portal-vue portal or an overlay component of a
+ * library preset
+ */
+function findTeleport(
+  element: TemplateElement,
+  filename: string
+): LocatorTeleport | undefined {
+  for (let parent = element.parent; parent; parent = parent.parent) {
+    const teleport = getTeleport(parent, filename)
+    if (teleport) return teleport
+  }
+  return undefined
+}
 
-        if (!groupedLocators[keyGroup]) groupedLocators[keyGroup] = {}
+function getTeleport(
+  element: TemplateElement,
+  filename: string
+): LocatorTeleport | undefined {
+  const { tag } = element
+  const getValue = (name: string) => {
+    const attribute = element.attributes[name]
+    if (!attribute) return undefined
+    if (!attribute.isBound) return attribute.value
+    const bound = resolveBoundValue(attribute.value, element, filename)
+    return bound.template ? undefined : bound.value
+  }
+  const toSelector = (target: string | undefined) =>
+    target && !pageRootSelectors.has(target.trim()) ? target.trim() : undefined
+  const location = toLocatorLocation(filename, element.loc)
+
+  if (teleportTags.has(tag)) {
+    // <Teleport disabled> keeps its content in place
+    const disabled = element.attributes.disabled
+    if (disabled && (!disabled.isBound || disabled.value.trim() === 'true')) {
+      return undefined
+    }
+    const to = getValue('to')
+    return {
+      kind: 'teleport',
+      component: tag,
+      to: to ?? element.attributes.to?.value ?? '',
+      selector: toSelector(to),
+      location
+    }
+  }
 
-        groupedLocators[keyGroup][key] = {
-          selector,
-          type: type as any,
-          element,
-          rawValue,
-          robustness: type === 'data-testid' ? 'robust' : 'robust',
-          testRelevance: 'high' as const,
-          isDynamic: true, // JS-generated elements are dynamic
-          isConditional: false,
-          vueDirectives: [],
-          customComponent: false,
-          parentContext: 'JS createElement'
-        }
+  if (portalTags.has(tag)) {
+    // MountingPortal mounts to a selector; the selector of a named
+    // <portal-target> is filled in once every file is processed
+    const mountTo = getValue('mount-to') ?? getValue('mountTo')
+    return mountTo
+      ? { kind: 'portal', component: tag, to: mountTo, selector: toSelector(mountTo), location }
+      : { kind: 'portal', component: tag, to: getValue('to') ?? 'default', location }
+  }
 
-        foundElements++
+  const preset =
+    isCustomComponent(tag) && !resolveComponent(tag, filename)
+      ? getComponentMapping(tag)
+      : undefined
+  const teleports = preset?.mapping.teleports
+  return teleports
+    ? {
+      kind: 'component',
+      component: tag,
+      to: teleports,
+      selector: toSelector(teleports),
+      location
+    }
+    : undefined
+}
+
+/**
+ * The row a repeated element is addressed within: the nearest element
+ * repeated by v-for (or child of a <template v-for>) that encloses it and
+ * has a stable attribute. Rows are not followed out of teleported content,
+ * which renders elsewhere
+ */
+function findRow(
+  element: TemplateElement,
+  filename: string
+): LocatorRow | undefined {
+  let child = element
+  for (
+    let ancestor: TemplateElement | undefined = element;
+    ancestor;
+    child = ancestor, ancestor = ancestor.parent
+  ) {
+    if (ancestor !== element && getTeleport(ancestor, filename)) return undefined
+    if (!ancestor.directives.includes('v-for')) continue
+
+    // <template v-for> renders its children once per item
+    const row = ancestor.tag === 'template' ? child : ancestor
+    if (row === element || isCustomComponent(row.tag)) continue
+
+    const locator = getRowLocator(row, filename)
+    if (locator) {
+      return {
+        ...locator,
+        iterator: ancestor.directiveExpressions['v-for'] ?? '',
+        location: toLocatorLocation(filename, row.loc)
       }
     }
   }
+  return undefined
+}
+
+/**
+ * Locator matching every instance of a row, from its most robust attribute
+ */
+function getRowLocator(
+  row: TemplateElement,
+  filename: string
+): Omit<LocatorRow, 'iterator' | 'location'> | undefined {
+  for (const name of getRobustAttributes()) {
+    const attribute = row.attributes[name]
+    const rule = getLocatorAttributeRules().find(
+      (candidate) => candidate.attribute === name
+    )
+    if (!attribute || !rule) continue
+
+    const bound = attribute.isBound
+      ? resolveBoundValue(attribute.value, row, filename)
+      : undefined
+    const rawValue = bound ? bound.value : attribute.value
+    const selector = buildAttributeSelector(rule, rawValue, bound?.template)
+    if (selector) {
+      return {
+        element: row.tag,
+        type: rule.type,
+        rawValue,
+        selector,
+        valueTemplate: bound?.template
+      }
+    }
+  }
+  return undefined
+}
+
+/**
+ * Record a <portal-target name="..."> and the selector of the element it
+ * renders portal content into
+ */
+function collectPortalTarget(element: TemplateElement): void {
+  const name = element.attributes.name
+  const id = element.attributes.id
+  const testId = element.attributes['data-testid']
+  const className = element.attributes.class
+
+  let selector: string | undefined
+  if (id && !id.isBound) {
+    selector = `#${id.value}`
+  } else if (testId && !testId.isBound) {
+    selector = `[data-testid="${testId.value}"]`
+  } else if (className && !className.isBound && className.value.trim()) {
+    selector = `.${className.value.trim().split(/\s+/).join('.')}`
+  }
+
+  portalTargets.set(name && !name.isBound ? name.value : 'default', selector)
+}
+
+/**
+ * Labels of the form controls of a file: `<label for>` matching the
+ * control's id, else a `<label>` wrapping it
+ */
+function collectLabels(
+  elements: TemplateElement[],
+  filename: string
+): Map<TemplateElement, LocatorLabel> {
+  const resolvers = getAccessibilityResolvers(filename)
+  const labels = new Map<TemplateElement, LocatorLabel>()
+
+  for (const element of elements) {
+    const label = findLabel(element, elements, resolvers)
+    const text = label && getLabelText(label, element, resolvers)
+    if (!label || !text) continue
+
+    const id = resolvers.getAttribute(element, 'id')
+    labels.set(element, {
+      text,
+      association:
+        id && resolvers.getAttribute(label, 'for') === id ? 'for' : 'wrapping',
+      location: toLocatorLocation(filename, label.loc)
+    })
+  }
+
+  return labels
+}
+
+/**
+ * Per-locale values, templates and selectors of a translated locator value
+ */
+function toLocatorTranslation(
+  translation: ResolvedTranslation,
+  buildSelector: (value: string, template?: ValueTemplate) => string | null,
+  templates: Record<string, ValueTemplate> = {}
+): LocatorTranslation {
+  const values: Record<string, string> = {}
+  const selectors: Record<string, string> = {}
+  for (const [locale, value] of Object.entries(translation.messages)) {
+    const selector = buildSelector(value)
+    if (selector === null) continue
+    values[locale] = value
+    selectors[locale] = selector
+  }
+  for (const [locale, template] of Object.entries(templates)) {
+    const selector = buildSelector(template.pattern, template)
+    if (selector !== null) selectors[locale] = selector
+  }
+  return {
+    key: translation.key,
+    locale: getActiveLocale() || '',
+    values,
+    templates,
+    selectors
+  }
+}
+
+/**
+ * Attribute values of an element keyed by attribute name, with bound
+ * expressions resolved where possible
+ */
+function getAttributeValues(
+  element: TemplateElement,
+  filename: string
+): Record<string, string> {
+  const values: Record<string, string> = {}
+  for (const attribute of Object.values(element.attributes)) {
+    values[attribute.name] = attribute.isBound
+      ? resolveBoundValue(attribute.value, element, filename).value
+      : attribute.value
+  }
+  return values
+}
+
+/**
+ * Static attribute values of an element keyed by attribute name
+ */
+function getStaticAttributeValues(
+  element: TemplateElement
+): Record<string, string> {
+  const values: Record<string, string> = {}
+  for (const attribute of Object.values(element.attributes)) {
+    if (!attribute.isBound) values[attribute.name] = attribute.value
+  }
+  return values
+}
+
+async function processJavaScriptContent(
+  content: string,
+  keyGroup: string,
+  groupedLocators: Record<string, Record<string, LocatorInfo>>,
+  customComponentWarnings: CustomComponentWarning[],
+  keyCollisions: KeyCollision[],
+  filename: string
+) {
+  log(
+    '   🔍 Scanning for render function calls and template strings...'
+  )
+
+  // Pattern for template strings with HTML
+  const templateStringPatterns = [
+    /`[^`]*<(\w+)[^>]*([^`]*)`/g,
+    /'[^']*<(\w+)[^>]*([^']*)'|"[^"]*<(\w+)[^>]*([^"]*)"/g
+  ]
+
+  let foundElements = 0
+
+  // Process h() / createElement() / createVNode() calls on the TypeScript AST
+  const { elements, errors } = parseRenderFunctions(
+    content,
+    filename,
+    (name) => resolveConstantIdentifier(name, filename)
+  )
+  errors.forEach((error) => {
+    log(`   ⚠️  Script parse error in ${filename}: ${error}`)
+  })
+  if (elements.length > 0) {
+    log(`   🔧 Parsed ${elements.length} render function elements`)
+    const before = Object.keys(groupedLocators[keyGroup] || {}).length
+    await processTemplateElements(
+      elements,
+      keyGroup,
+      groupedLocators,
+      customComponentWarnings,
+      keyCollisions,
+      filename
+    )
+    foundElements += Object.keys(groupedLocators[keyGroup] || {}).length - before
+  }
 
   // Process template strings (simplified)
   for (const pattern of templateStringPatterns) {
@@ -625,11 +1497,10 @@ async function processJavaScriptContent(
       const testIdMatches = htmlContent.matchAll(/data-testid="([^"]+)"/g)
       for (const testIdMatch of testIdMatches) {
         const rawValue = testIdMatch[1]
+        const startOffset = (match.index || 0) + (testIdMatch.index || 0)
         const key = generateEnhancedKey(rawValue, 'data-testid', false, false)
 
-        if (!groupedLocators[keyGroup]) groupedLocators[keyGroup] = {}
-
-        groupedLocators[keyGroup][key] = {
+        registerLocator(groupedLocators, keyGroup, key, {
           selector: `[data-testid="${rawValue}"]`,
           type: 'data-testid',
           element: 'unknown',
@@ -640,21 +1511,105 @@ async function processJavaScriptContent(
           isConditional: false,
           vueDirectives: [],
           customComponent: false,
-          parentContext: 'JS template string'
-        }
+          parentContext: 'JS template string',
+          location: getContentLocation(
+            filename,
+            content,
+            startOffset,
+            startOffset + testIdMatch[0].length
+          )
+        }, keyCollisions)
 
         foundElements++
       }
     }
   }
 
-  console.log(
+  log(
     `   ${
       foundElements > 0 ? '✅' : '⚠️'
     } Found ${foundElements} test-relevant elements in JS/TS`
   )
 }
 
+/**
+ * Store a locator under its key, disambiguating the key deterministically when
+ * a different locator already uses it: first by element type, then by parent
+ * element, then by ordinal. Returns the key used, or null for an exact duplicate
+ */
+function registerLocator(
+  groupedLocators: Record<string, Record<string, LocatorInfo>>,
+  keyGroup: string,
+  key: string,
+  locatorInfo: LocatorInfo,
+  keyCollisions: KeyCollision[],
+  parentTag?: string
+): string | null {
+  const group = (groupedLocators[keyGroup] = groupedLocators[keyGroup] || {})
+  const existing = group[key]
+
+  if (!existing) {
+    group[key] = locatorInfo
+    return key
+  }
+
+  // The same element reached twice is not a collision
+  if (
+    existing.selector === locatorInfo.selector &&
+    existing.location?.startOffset === locatorInfo.location?.startOffset
+  ) {
+    return null
+  }
+
+  const toKeyPart = (value: string) =>
+    value.toLowerCase().replace(/[^a-z0-9]+/g, '_').replace(/^_+|_+$/g, '')
+
+  const candidates: Array<{ key: string; strategy: KeyCollision['strategy'] }> =
+    []
+  if (locatorInfo.element && locatorInfo.element !== existing.element) {
+    candidates.push({
+      key: `${key}_${toKeyPart(locatorInfo.element)}`,
+      strategy: 'element'
+    })
+  }
+  if (parentTag) {
+    candidates.push({
+      key: `${key}_in_${toKeyPart(parentTag)}`,
+      strategy: 'parent'
+    })
+  }
+
+  let resolved = candidates.find((candidate) => !group[candidate.key])
+  for (let ordinal = 2; !resolved; ordinal++) {
+    if (!group[`${key}_${ordinal}`]) {
+      resolved = { key: `${key}_${ordinal}`, strategy: 'ordinal' }
+    }
+  }
+
+  group[resolved.key] = locatorInfo
+
+  const describe = (info: LocatorInfo) =>
+    `${info.element} ${info.type}="${info.rawValue}"${
+      info.location ? ` @ ${formatLocation(info.location)}` : ''
+    }`
+  keyCollisions.push({
+    file: keyGroup,
+    key,
+    resolvedKey: resolved.key,
+    strategy: resolved.strategy,
+    existing: describe(existing),
+    incoming: describe(locatorInfo),
+    message: `Key "${key}" in ${keyGroup} is used by ${describe(
+      existing
+    )} and ${describe(locatorInfo)} — renamed the latter to "${
+      resolved.key
+    }" (by ${resolved.strategy})`
+  })
+  log(`      🔑 Key collision: "${key}" → "${resolved.key}"`)
+
+  return resolved.key
+}
+
 function generateEnhancedKey(
   rawValue: string,
   type: string,
@@ -690,297 +1645,185 @@ function generateEnhancedKey(
 }
 
 /**
- * Extract constant definitions from JavaScript/TypeScript content
+ * Classify a constant by its name and value for the constants listing
  */
-function extractConstants(content: string, filename: string): void {
-  // Pattern for const declarations with role/label/testid related names
-  const constPatterns = [
-    // const ROLE_BUTTON = 'button';
-    /const\s+([A-Z_]+(?:ROLE|LABEL|TESTID|TEST_ID)[A-Z_]*)\s*=\s*['"`]([^'"`]+)['"`]/g,
-    // const SUBMIT_ROLE = 'button';
-    /const\s+([A-Z_]*(?:ROLE|LABEL|TESTID|TEST_ID)[A-Z_]*)\s*=\s*['"`]([^'"`]+)['"`]/g,
-    // const USER_BUTTON_ROLE = 'button';
-    /const\s+([A-Z_]+)\s*=\s*['"`](button|link|textbox|heading|banner|navigation|main|complementary|contentinfo|search|form|dialog|alert|status|log|marquee|timer|alertdialog|application|article|cell|columnheader|definition|directory|document|group|img|list|listitem|math|note|presentation|region|row|rowgroup|rowheader|separator|slider|spinbutton|table|tablist|tab|tabpanel|toolbar|tooltip|tree|treegrid|treeitem)['"`]/g,
-    // const SUBMIT_LABEL = 'Submit';
-    /const\s+([A-Z_]+)\s*=\s*['"`]([A-Za-z0-9\s]+)['"`]/g,
-    // const USERNAME_NAME = 'username'; (form field names)
-    /const\s+([A-Z_]*(?:NAME|FIELD)[A-Z_]*)\s*=\s*['"`]([^'"`]+)['"`]/g,
-    // const EMAIL_PLACEHOLDER = 'Enter your email';
-    /const\s+([A-Z_]*(?:PLACEHOLDER|HINT)[A-Z_]*)\s*=\s*['"`]([^'"`]+)['"`]/g
-  ]
-
-  for (const pattern of constPatterns) {
-    const matches = [...content.matchAll(pattern)]
-    for (const match of matches) {
-      const constantName = match[1]
-      const constantValue = match[2]
-
-      // Determine type based on name and value
-      let type: 'role' | 'label' | 'testid' | 'name' | 'placeholder' | 'other' =
-        'other'
-
-      if (
-        constantName.includes('ROLE') ||
-        [
-          'button',
-          'link',
-          'textbox',
-          'heading',
-          'banner',
-          'navigation',
-          'main',
-          'complementary',
-          'contentinfo',
-          'search',
-          'form',
-          'dialog',
-          'alert',
-          'status',
-          'log',
-          'marquee',
-          'timer',
-          'alertdialog',
-          'application',
-          'article',
-          'cell',
-          'columnheader',
-          'definition',
-          'directory',
-          'document',
-          'group',
-          'img',
-          'list',
-          'listitem',
-          'math',
-          'note',
-          'presentation',
-          'region',
-          'row',
-          'rowgroup',
-          'rowheader',
-          'separator',
-          'slider',
-          'spinbutton',
-          'table',
-          'tablist',
-          'tab',
-          'tabpanel',
-          'toolbar',
-          'tooltip',
-          'tree',
-          'treegrid',
-          'treeitem'
-        ].includes(constantValue.toLowerCase())
-      ) {
-        type = 'role'
-      } else if (constantName.includes('LABEL')) {
-        type = 'label'
-      } else if (
-        constantName.includes('TESTID') ||
-        constantName.includes('TEST_ID')
-      ) {
-        type = 'testid'
-      } else if (
-        constantName.includes('NAME') ||
-        constantName.includes('FIELD')
-      ) {
-        type = 'name'
-      } else if (
-        constantName.includes('PLACEHOLDER') ||
-        constantName.includes('HINT')
-      ) {
-        type = 'placeholder'
-      }
-
-      constantsRegistry.set(constantName, {
-        name: constantName,
-        value: constantValue,
-        type: type as
-          | 'role'
-          | 'label'
-          | 'testid'
-          | 'name'
-          | 'placeholder'
-          | 'other',
-        file: filename
-      })
-
-      console.log(
-        `   🔧 Found constant: ${constantName} = "${constantValue}" (${type}) in ${filename}`
-      )
-    }
+function classifyConstant(
+  name: string,
+  value: string
+): ConstantDefinition['type'] {
+  const upperName = name.toUpperCase()
+
+  if (upperName.includes('ROLE') || ariaRoles.has(value.toLowerCase())) {
+    return 'role'
   }
+  if (upperName.includes('LABEL')) return 'label'
+  if (
+    upperName.includes('TESTID') ||
+    upperName.includes('TEST_ID') ||
+    upperName.includes('TEST_IDS')
+  ) {
+    return 'testid'
+  }
+  if (upperName.includes('NAME') || upperName.includes('FIELD')) return 'name'
+  if (upperName.includes('PLACEHOLDER') || upperName.includes('HINT')) {
+    return 'placeholder'
+  }
+  return 'other'
 }
 
 /**
- * Resolve constant references in attribute values
+ * Constants declared at the top level of a JavaScript/TypeScript module
+ * or an SFC's script blocks
  */
-function resolveConstantReference(value: string): {
-  resolved: string;
-  constantName?: string;
-} {
-  // Handle Vue.js constant binding: :role="ROLE_BUTTON" or v-bind:role="ROLE_BUTTON"
-  const vueConstantMatch = value.match(/^([A-Z_]+)$/)
-  if (vueConstantMatch) {
-    const constantName = vueConstantMatch[1]
-    const constant = constantsRegistry.get(constantName)
-    if (constant) {
-      return { resolved: constant.value, constantName }
-    }
-  }
-
-  // Handle template literal references: ${ROLE_BUTTON}
-  const templateLiteralMatch = value.match(/\$\{([A-Z_]+)\}/)
-  if (templateLiteralMatch) {
-    const constantName = templateLiteralMatch[1]
-    const constant = constantsRegistry.get(constantName)
-    if (constant) {
-      const resolved = value.replace(`\${${constantName}}`, constant.value)
-      return { resolved, constantName }
-    }
-  }
-
-  // Handle JavaScript property access: obj.ROLE_BUTTON
-  const propertyMatch = value.match(/\.([A-Z_]+)$/)
-  if (propertyMatch) {
-    const constantName = propertyMatch[1]
-    const constant = constantsRegistry.get(constantName)
-    if (constant) {
-      return { resolved: constant.value, constantName }
-    }
-  }
+function extractConstants(filename: string): ConstantDefinition[] {
+  return listModuleConstants(filename).map((constant) => ({
+    ...constant,
+    type: classifyConstant(constant.name, constant.value)
+  }))
+}
 
-  return { resolved: value }
+/**
+ * Value of a constant used as an identifier, e.g. a computed prop key
+ */
+function resolveConstantIdentifier(
+  name: string,
+  filename: string
+): string | undefined {
+  return resolveConstantExpression(name, filename)?.value
 }
 
 /**
  * Detect interactive elements that lack proper test attributes (fallback strategy)
  */
 async function detectElementsWithoutTestAttributes(
-  templateContent: string,
+  elements: TemplateElement[],
   keyGroup: string,
   groupedLocators: Record<string, Record<string, LocatorInfo>>,
-  warnings: string[],
-  filename: string
+  keyCollisions: KeyCollision[],
+  filename: string,
+  accessibility: Map<TemplateElement, LocatorAccessibility>,
+  labels: Map<TemplateElement, LocatorLabel>
 ) {
   // Target elements that should have test attributes
-  const interactiveElementPatterns = [
-    // Buttons
-    /<(button)[^>]*>([^<]*)<\/button>/gs,
-    /<(input)[^>]*type\s*=\s*["'](button|submit|reset)["'][^>]*>/gs,
-    // Input fields
-    /<(input)[^>]*(?!type\s*=\s*["'](button|submit|reset)["'])[^>]*>/gs,
-    /<(textarea)[^>]*>[^<]*<\/textarea>/gs,
-    /<(select)[^>]*>[^<]*<\/select>/gs,
-    // Links that could be interactive
-    /<(a)[^>]*href[^>]*>([^<]*)<\/a>/gs,
-    // Headers (important for navigation)
-    /<(h[1-6])[^>]*>([^<]*)<\/h[1-6]>/gs
+  const interactiveElements = [
+    ...getProjectConfig().interactiveElements,
+    'h1',
+    'h2',
+    'h3',
+    'h4',
+    'h5',
+    'h6'
   ]
 
-  for (const pattern of interactiveElementPatterns) {
-    const matches = [...templateContent.matchAll(pattern)]
+  for (const templateElement of elements) {
+    const element = templateElement.tag
+    if (!interactiveElements.includes(element)) continue
 
-    for (const match of matches) {
-      const fullElement = match[0]
-      const elementType = match[1]
-      const textContent = match[2] || ''
-
-      // Check if this element already has test attributes
-      const hasTestAttribute = robustAttributes.some(
-        (attr) =>
-          fullElement.includes(`${attr}=`) ||
-          fullElement.includes(`:${attr}=`) ||
-          fullElement.includes(`v-bind:${attr}=`)
-      )
+    // Only links that navigate somewhere are interesting
+    if (element === 'a' && !templateElement.attributes.href) continue
 
-      // Skip if already has test attributes
-      if (hasTestAttribute) continue
-
-      // Extract basic attributes for XPath generation
-      const context = analyzeElementContext(templateContent, match.index || 0)
-      const { element, attributes } = extractElementWithAttributesEnhanced(
-        match,
-        templateContent
-      )
-
-      // Generate XPath as fallback locator
-      const xpath = generateFallbackXPath(
-        element,
-        attributes,
-        textContent.trim()
-      )
+    // Skip if already has test attributes (static or bound)
+    const hasTestAttribute = getRobustAttributes().some(
+      (attr) => templateElement.attributes[attr]
+    )
+    if (hasTestAttribute) continue
 
-      if (!xpath) continue
+    const { text: textContent, translation } = resolveElementText(
+      templateElement,
+      filename
+    )
+    const attributes = getStaticAttributeValues(templateElement)
+    const context = analyzeElementContext(templateElement)
 
-      // Detect Vue directives
-      const { directives, isDynamic, isConditional } = detectVueDirectives(
-        attributes.fullAttributeString || ''
-      )
+    // Generate XPath as fallback locator
+    const xpath = generateFallbackXPath(element, attributes, textContent)
 
-      // Create fallback locator entry
-      const key = generateEnhancedKey(xpath, 'xpath', isDynamic, isConditional)
+    if (!xpath) continue
 
-      // Check if we already found this xpath
-      if (groupedLocators[keyGroup]?.[key]) continue
+    // Detect Vue directives
+    const { directives, isDynamic, isConditional } =
+      detectVueDirectives(templateElement, context.ancestors)
 
-      // Use classifyElement to properly determine robustness instead of hardcoding as fragile
-      const xpathAttributes = { ...attributes, xpath: xpath }
-      const { robustness, testRelevance } = classifyElement(
-        element,
-        xpathAttributes
-      )
+    // Create fallback locator entry
+    const baseKey = generateEnhancedKey(xpath, 'xpath', isDynamic, isConditional)
 
-      const locatorInfo: LocatorInfo = {
-        selector: xpath,
-        type: 'xpath',
-        element,
-        rawValue: xpath,
-        robustness,
-        testRelevance,
-        warning:
-          robustness === 'fragile'
-            ? `FRAGILE LOCATOR WARNING: ${element}${
-              textContent ? ` with text="${textContent}"` : ''
-            } lacks stable test attributes. Consider adding data-testid="${generateSuggestedTestId(
-              element,
-              textContent
-            )}" | Alternative: data-test-id="${generateSuggestedTestId(
-              element,
-              textContent
-            )}" | Alternative: data-test="${generateSuggestedTestId(
-              element,
-              textContent
-            )}" | Or add a unique id="${generateSuggestedTestId(
-              element,
-              textContent
-            )}"`
-            : undefined,
-        isDynamic,
-        isConditional,
-        vueDirectives: directives,
-        customComponent: isCustomComponent(element),
-        parentContext: context.parentContext
-      }
+    // Use classifyElement to properly determine robustness instead of hardcoding as fragile
+    const xpathAttributes = { ...attributes, xpath: xpath }
+    const location = toLocatorLocation(filename, templateElement.loc)
+    const { robustness, testRelevance } = classifyElement(
+      element,
+      xpathAttributes
+    )
 
-      groupedLocators[keyGroup] = groupedLocators[keyGroup] || {}
-      groupedLocators[keyGroup][key] = locatorInfo
-
-      // Log discovery with proper status icon
-      const statusIcon = robustness === 'robust' ? '✅' : '🔸'
-      const dynamicFlag = isDynamic ? ' [DYNAMIC]' : ''
-      const conditionalFlag = isConditional ? ' [CONDITIONAL]' : ''
-      const contextFlag = context.parentContext
-        ? ` (${context.parentContext})`
-        : ''
-
-      console.log(
-        `      ${statusIcon} ${key}: xpath="${xpath.substring(
-          0,
-          60
-        )}..."${dynamicFlag}${conditionalFlag}${contextFlag}`
-      )
+    const locatorInfo: LocatorInfo = {
+      selector: xpath,
+      type: 'xpath',
+      element,
+      rawValue: xpath,
+      robustness,
+      testRelevance,
+      warning:
+        robustness === 'fragile'
+          ? `FRAGILE LOCATOR WARNING: ${element}${
+            textContent ? ` with text="${textContent}"` : ''
+          } lacks stable test attributes. Consider adding data-testid="${generateSuggestedTestId(
+            element,
+            textContent
+          )}" | Alternative: data-test-id="${generateSuggestedTestId(
+            element,
+            textContent
+          )}" | Alternative: data-test="${generateSuggestedTestId(
+            element,
+            textContent
+          )}" | Or add a unique id="${generateSuggestedTestId(
+            element,
+            textContent
+          )}"`
+          : undefined,
+      isDynamic,
+      isConditional,
+      vueDirectives: directives,
+      customComponent: isCustomComponent(element),
+      parentContext: context.parentContext,
+      ancestors: context.ancestors,
+      slotName: templateElement.slotName,
+      templateWrapper: templateElement.templateWrapper,
+      translation:
+        translation &&
+        toLocatorTranslation(translation, (text) =>
+          generateFallbackXPath(element, attributes, text)
+        ),
+      accessibility: accessibility.get(templateElement),
+      label: labels.get(templateElement),
+      teleport: findTeleport(templateElement, filename),
+      row: findRow(templateElement, filename),
+      location
     }
+
+    const key = registerLocator(
+      groupedLocators,
+      keyGroup,
+      baseKey,
+      locatorInfo,
+      keyCollisions,
+      templateElement.parent?.tag
+    )
+    if (!key) continue
+
+    // Log discovery with proper status icon
+    const statusIcon = robustness === 'robust' ? '✅' : '🔸'
+    const dynamicFlag = isDynamic ? ' [DYNAMIC]' : ''
+    const conditionalFlag = isConditional ? ' [CONDITIONAL]' : ''
+    const contextFlag = context.parentContext
+      ? ` (${context.parentContext})`
+      : ''
+
+    log(
+      `      ${statusIcon} ${key}: xpath="${xpath.substring(
+        0,
+        60
+      )}..."${dynamicFlag}${conditionalFlag}${contextFlag} @ ${formatLocation(location)}`
+    )
   }
 }
 
@@ -1092,19 +1935,158 @@ function generateSuggestedTestId(element: string, textContent: string): string {
 }
 
 /**
- * Get test relevance for element type
+ * Get test relevance for element type: interactive elements, forms and
+ * widgets a preset renders with an interactive role are high, other
+ * structural elements medium
  */
-function getElementTestRelevance(element: string): 'high' | 'medium' | 'low' {
-  const highRelevance = ['button', 'input', 'textarea', 'select', 'a']
-  const mediumRelevance = ['h1', 'h2', 'h3', 'h4', 'h5', 'h6', 'form']
-
-  if (highRelevance.includes(element)) return 'high'
-  if (mediumRelevance.includes(element)) return 'medium'
+function getElementTestRelevance(
+  element: string,
+  role?: string
+): 'high' | 'medium' | 'low' {
+  const { interactiveElements } = getProjectConfig()
+  if (interactiveElements.includes(element) || element === 'form') return 'high'
+  if (role && interactiveRoles.has(role)) return 'high'
+  if (testRelevantElements.has(element)) return 'medium'
   return 'low'
 }
 
 /**
- * Enhanced template parsing with better multi-line and Vue directive support
+ * `[attribute="value"]` with the value's quotes and backslashes escaped, so
+ * any attribute value makes a valid selector
+ */
+function toAttributeSelector(
+  attribute: string,
+  value: string,
+  operator = '='
+): string {
+  return `[${attribute}${operator}"${value.replace(/["\\]/g, '\\$&')}"]`
+}
+
+/**
+ * Locator-producing attributes and how each maps to a selector
+ */
+const locatorAttributeRules: Array<{
+  attribute: string;
+  type: LocatorInfo['type'];
+  selector: (val: string) => string | null;
+}> = [
+  {
+    attribute: 'data-testid',
+    type: 'data-testid',
+    selector: (val) => toAttributeSelector('data-testid', val)
+  },
+  {
+    attribute: 'data-test-id',
+    type: 'data-test-id',
+    selector: (val) => toAttributeSelector('data-test-id', val)
+  },
+  {
+    attribute: 'data-test',
+    type: 'data-test',
+    selector: (val) => toAttributeSelector('data-test', val)
+  },
+  { attribute: 'id', type: 'id', selector: (val) => `#${val}` },
+  {
+    attribute: 'class',
+    type: 'class',
+    selector: (val) => {
+      // Skip complex Vue expressions
+      if (
+        val.includes('[') ||
+        val.includes('{{') ||
+        val.includes('${') ||
+        val.includes('{')
+      ) {
+        return null
+      }
+      return `.${val.trim().split(/\s+/).join('.')}`
+    }
+  },
+  { attribute: 'name', type: 'name', selector: (val) => toAttributeSelector('name', val) },
+  {
+    attribute: 'placeholder',
+    type: 'placeholder',
+    selector: (val) => toAttributeSelector('placeholder', val)
+  },
+  {
+    attribute: 'aria-label',
+    type: 'aria-label',
+    selector: (val) => toAttributeSelector('aria-label', val)
+  },
+  { attribute: 'role', type: 'role', selector: (val) => toAttributeSelector('role', val) },
+  { attribute: 'data-xpath', type: 'xpath', selector: (val) => val },
+  { attribute: 'xpath', type: 'xpath', selector: (val) => val }
+]
+
+/**
+ * Attribute rules of the current scan: rules for the project's own test id
+ * attributes, then the built-in rules. Generators only use getByTestId for
+ * the one attribute Playwright is configured with
+ */
+function getLocatorAttributeRules(): typeof locatorAttributeRules {
+  const projectRules = getProjectConfig()
+    .testIdAttributes.filter(
+      (attribute) =>
+        !locatorAttributeRules.some((rule) => rule.attribute === attribute)
+    )
+    .map((attribute) => ({
+      attribute,
+      type: 'data-testid' as const,
+      selector: (val: string) => toAttributeSelector(attribute, val)
+    }))
+  return [...projectRules, ...locatorAttributeRules]
+}
+
+/**
+ * Warning for a templated value whose "any instance" selector has no static
+ * text to match on
+ */
+function generateUnanchoredWarning(
+  element: string,
+  rawValue: string,
+  type: string,
+  selector: string
+): string {
+  return (
+    `FRAGILE LOCATOR WARNING: ${element} with ${type}="${rawValue}" has no static text, ` +
+    `so ${selector} matches every element with the attribute. ` +
+    'Use the parameterised method for one instance'
+  )
+}
+
+/**
+ * Whether a value template has static text to anchor an "any instance"
+ * selector on
+ */
+function hasStaticAffix(template: ValueTemplate): boolean {
+  const { prefix, suffix, infix } = getTemplateAffixes(template)
+  return Boolean(prefix || suffix || infix)
+}
+
+/**
+ * Build the selector for an attribute value. Values with runtime holes get
+ * an "any instance" selector on their static prefix and suffix
+ */
+function buildAttributeSelector(
+  rule: (typeof locatorAttributeRules)[number],
+  value: string,
+  template?: ValueTemplate
+): string | null {
+  if (!template) return rule.selector(value)
+  if (rule.type === 'class' || rule.type === 'xpath') return null
+
+  const { prefix, suffix, infix } = getTemplateAffixes(template)
+  const conditions = [
+    prefix && toAttributeSelector(rule.attribute, prefix, '^='),
+    suffix && toAttributeSelector(rule.attribute, suffix, '$='),
+    !prefix && !suffix && infix && toAttributeSelector(rule.attribute, infix, '*=')
+  ].filter(Boolean)
+
+  return conditions.length > 0 ? conditions.join('') : `[${rule.attribute}]`
+}
+
+/**
+ * Template parsing on the Vue compiler AST
  */
 async function processTemplateContent(
   templateContent: string,
@@ -1112,342 +2094,363 @@ async function processTemplateContent(
   groupedLocators: Record<string, Record<string, LocatorInfo>>,
   warnings: string[],
   customComponentWarnings: CustomComponentWarning[],
-  filename: string
+  keyCollisions: KeyCollision[],
+  filename: string,
+  origin?: Position,
+  preprocessedSource?: string
 ) {
   // Debug: Show what we're working with
-  console.log(
+  log(
     `   🔍 Processing template content (${templateContent.length} chars)...`
   )
 
-  // Check for custom components first
-  const customComponentMatches = templateContent.matchAll(
-    /<([A-Z][a-zA-Z0-9-]*)[^>]*>/g
+  const { elements, errors } = parseTemplate(
+    templateContent,
+    origin,
+    preprocessedSource
   )
-  for (const match of customComponentMatches) {
-    const componentName = match[1]
-    const context = analyzeElementContext(templateContent, match.index || 0)
-
-    customComponentWarnings.push({
-      file: filename,
-      component: componentName,
-      line: context.lineNumber,
-      message: `Custom component <${componentName}> at line ${context.lineNumber} — locator not extracted. Review component source or ensure it passes data-testid down to root element.`
-    })
-  }
-
-  // Enhanced: Pre-process template to handle multi-line elements and normalize whitespace
-  const normalizedTemplate = normalizeTemplateForParsing(templateContent)
+  errors.forEach((error) => {
+    log(`   ⚠️  Template parse error in ${filename}: ${error}`)
+  })
+  log(`   🔧 Parsed ${elements.length} template elements`)
 
-  // Debug: Show a sample of the normalized content
-  console.log(
-    `   🔧 Normalized template (${
-      normalizedTemplate.length
-    } chars, sample): ${normalizedTemplate.substring(0, 200)}...`
+  await processTemplateElements(
+    elements,
+    keyGroup,
+    groupedLocators,
+    customComponentWarnings,
+    keyCollisions,
+    filename
   )
+}
 
-  // Enhanced locator patterns with better regex support
-  const locatorPatterns = [
-    // Static data-testid patterns - more flexible
-    {
-      pattern: /data-testid\s*=\s*["']([^"']+)["']/gis,
-      type: 'data-testid' as const,
-      selector: (val: string) => `[data-testid="${val}"]`
-    },
-    // Vue dynamic data-testid patterns - more flexible
-    {
-      pattern: /:data-testid\s*=\s*["']([^"']+)["']/gis,
-      type: 'data-testid' as const,
-      selector: (val: string) => `[data-testid="${val}"]`,
-      isDynamic: true
-    },
-    {
-      pattern: /v-bind:data-testid\s*=\s*["']([^"']+)["']/gis,
-      type: 'data-testid' as const,
-      selector: (val: string) => `[data-testid="${val}"]`,
-      isDynamic: true
-    },
-    // Template literal data-testid patterns - backticks
-    {
-      pattern: /:data-testid\s*=\s*[`]([^`]*)[`]/gis,
-      type: 'data-testid' as const,
-      selector: (val: string) =>
-        val.includes('${')
-          ? `[data-testid*="${extractTemplateLiteralBase(val)}"]`
-          : `[data-testid="${val}"]`,
-      isDynamic: true
-    },
-    // data-test-id patterns
-    {
-      pattern: /data-test-id\s*=\s*["']([^"']+)["']/gis,
-      type: 'data-test-id' as const,
-      selector: (val: string) => `[data-test-id="${val}"]`
-    },
-    {
-      pattern: /:data-test-id\s*=\s*["']([^"']+)["']/gis,
-      type: 'data-test-id' as const,
-      selector: (val: string) => `[data-test-id="${val}"]`,
-      isDynamic: true
-    },
-    // data-test patterns
-    {
-      pattern: /data-test\s*=\s*["']([^"']+)["']/gis,
-      type: 'data-test' as const,
-      selector: (val: string) => `[data-test="${val}"]`
-    },
-    {
-      pattern: /:data-test\s*=\s*["']([^"']+)["']/gis,
-      type: 'data-test' as const,
-      selector: (val: string) => `[data-test="${val}"]`,
-      isDynamic: true
-    },
-    // id patterns - enhanced
-    {
-      pattern: /\bid\s*=\s*["']([^"']+)["']/gis,
-      type: 'id' as const,
-      selector: (val: string) => `#${val}`
-    },
-    {
-      pattern: /:id\s*=\s*["']([^"']+)["']/gis,
-      type: 'id' as const,
-      selector: (val: string) => `#${val}`,
-      isDynamic: true
-    },
-    // Template literal id patterns
-    {
-      pattern: /:id\s*=\s*[`]([^`]*)[`]/gis,
-      type: 'id' as const,
-      selector: (val: string) =>
-        val.includes('${')
-          ? `[id*="${extractTemplateLiteralBase(val)}"]`
-          : `#${val}`,
-      isDynamic: true
-    },
-    // class patterns - enhanced
-    {
-      pattern: /\bclass\s*=\s*["']([^"']+)["']/gis,
-      type: 'class' as const,
-      selector: (val: string) => {
-        // Skip complex Vue expressions
-        if (
-          val.includes('[') ||
-          val.includes('{{') ||
-          val.includes('${') ||
-          val.includes('{')
-        ) {
-          return null
-        }
-        return `.${val.split(/\s+/).join('.')}`
-      }
-    },
-    // name patterns - enhanced
-    {
-      pattern: /\bname\s*=\s*["']([^"']+)["']/gis,
-      type: 'name' as const,
-      selector: (val: string) => `[name="${val}"]`
-    },
-    {
-      pattern: /:name\s*=\s*["']([^"']+)["']/gis,
-      type: 'name' as const,
-      selector: (val: string) => `[name="${val}"]`,
-      isDynamic: true
-    },
-    // Template literal name patterns
-    {
-      pattern: /:name\s*=\s*[`]([^`]*)[`]/gis,
-      type: 'name' as const,
-      selector: (val: string) =>
-        val.includes('${')
-          ? `[name*="${extractTemplateLiteralBase(val)}"]`
-          : `[name="${val}"]`,
-      isDynamic: true
-    },
-    // placeholder patterns - enhanced
-    {
-      pattern: /placeholder\s*=\s*["']([^"']+)["']/gis,
-      type: 'placeholder' as const,
-      selector: (val: string) => `[placeholder="${val}"]`
-    },
-    {
-      pattern: /:placeholder\s*=\s*["']([^"']+)["']/gis,
-      type: 'placeholder' as const,
-      selector: (val: string) => `[placeholder="${val}"]`,
-      isDynamic: true
-    },
-    // aria-label patterns - enhanced
-    {
-      pattern: /aria-label\s*=\s*["']([^"']+)["']/gis,
-      type: 'aria-label' as const,
-      selector: (val: string) => `[aria-label="${val}"]`
-    },
-    {
-      pattern: /:aria-label\s*=\s*["']([^"']+)["']/gis,
-      type: 'aria-label' as const,
-      selector: (val: string) => `[aria-label="${val}"]`,
-      isDynamic: true
-    },
-    // role patterns - enhanced
-    {
-      pattern: /\brole\s*=\s*["']([^"']+)["']/gis,
-      type: 'role' as const,
-      selector: (val: string) => `[role="${val}"]`
-    },
-    {
-      pattern: /:role\s*=\s*["']([^"']+)["']/gis,
-      type: 'role' as const,
-      selector: (val: string) => `[role="${val}"]`,
-      isDynamic: true
-    },
-    // xpath patterns
-    {
-      pattern: /data-xpath\s*=\s*["']([^"']+)["']/gis,
-      type: 'xpath' as const,
-      selector: (val: string) => val
-    },
-    {
-      pattern: /xpath\s*=\s*["']([^"']+)["']/gis,
-      type: 'xpath' as const,
-      selector: (val: string) => val
-    }
-  ]
-
-  let totalMatches = 0
-
-  for (const {
-    pattern,
-    type,
-    selector,
-    isDynamic: patternIsDynamic
-  } of locatorPatterns) {
-    const matches = [...normalizedTemplate.matchAll(pattern)]
-    totalMatches += matches.length
-
-    // Debug: Show what patterns are matching
-    if (matches.length > 0) {
-      console.log(`   🎯 Pattern ${type} found ${matches.length} matches`)
-    }
-
-    for (const match of matches) {
-      let rawValue = match[1]
-      let resolvedFromConstant: string | undefined
-
-      // Try to resolve constant references
-      const { resolved, constantName } = resolveConstantReference(rawValue)
-      if (constantName) {
-        resolvedFromConstant = `${constantName} → ${resolved}`
-        rawValue = resolved
-        console.log(
-          `   🔧 Resolved constant: ${constantName} → "${resolved}" for ${type}`
-        )
-      }
-
-      // Enhanced element extraction with better multi-line support
-      const context = analyzeElementContext(
-        normalizedTemplate,
-        match.index || 0
-      )
-      const { element, attributes } = extractElementWithAttributesEnhanced(
-        match,
-        normalizedTemplate
-      )
-
-      // Add resolvedFromConstant to attributes for tracking
-      if (resolvedFromConstant) {
-        attributes.resolvedFromConstant = resolvedFromConstant
-      }
-
-      // CRITICAL FIX: Add the current attribute to the attributes object so classifyElement can detect it
-      attributes[type] = rawValue
-
-      // Detect Vue directives
-      const { directives, isDynamic, isConditional } = detectVueDirectives(
-        attributes.fullAttributeString || ''
-      )
+/**
+ * JSX/TSX render functions, extracted through the template element pipeline
+ */
+async function processJsxContent(
+  content: string,
+  keyGroup: string,
+  groupedLocators: Record<string, Record<string, LocatorInfo>>,
+  customComponentWarnings: CustomComponentWarning[],
+  keyCollisions: KeyCollision[],
+  filename: string
+) {
+  const { elements, errors } = parseJsx(
+    content,
+    filename,
+    (name) => resolveConstantIdentifier(name, filename)
+  )
+  errors.forEach((error) => {
+    log(`   ⚠️  JSX parse error in ${filename}: ${error}`)
+  })
+  log(`   🔧 Parsed ${elements.length} JSX elements`)
 
-      // Mark as dynamic if it was a Vue dynamic attribute (e.g., :role)
-      const finalIsDynamic = isDynamic || patternIsDynamic || false
+  await processTemplateElements(
+    elements,
+    keyGroup,
+    groupedLocators,
+    customComponentWarnings,
+    keyCollisions,
+    filename
+  )
+}
 
-      // Check if this is a custom component
-      const customComponent = isCustomComponent(element)
+/**
+ * Extract locators from parsed template elements, whatever their source
+ */
+async function processTemplateElements(
+  parsedElements: TemplateElement[],
+  keyGroup: string,
+  groupedLocators: Record<string, Record<string, LocatorInfo>>,
+  customComponentWarnings: CustomComponentWarning[],
+  keyCollisions: KeyCollision[],
+  filename: string
+) {
+  const elements = parsedElements.filter(isRenderedElement)
+  const accessibility = collectAccessibility(elements, filename)
+  const labels = collectLabels(elements, filename)
 
-      // Generate the selector
-      const selectorResult = selector(rawValue)
+  let totalMatches = 0
 
-      // Skip if selector generation failed
-      if (selectorResult === null) {
-        continue
+  for (const element of elements) {
+    // Custom components are followed to the element their attributes render
+    // on; library components (Vuetify, Element Plus, ...) use their preset
+    const isComponent = isCustomComponent(element.tag)
+    const component = isComponent
+      ? resolveComponent(element.tag, filename)
+      : undefined
+    const preset =
+      isComponent && !component ? getComponentMapping(element.tag) : undefined
+    const location = toLocatorLocation(filename, element.loc)
+
+    if (component) {
+      const usingFile = filename.replace(/\\/g, '/')
+      if (!componentUsages.has(usingFile)) {
+        componentUsages.set(usingFile, new Set())
       }
+      componentUsages.get(usingFile)?.add(component.file)
+    }
 
-      // Classify the element
-      const { robustness, testRelevance } = classifyElement(
-        element,
-        attributes
-      )
+    if (portalTargetTags.has(element.tag)) collectPortalTarget(element)
 
-      // Generate a unique key
-      const key = generateEnhancedKey(
-        rawValue,
-        type,
-        finalIsDynamic,
-        isConditional
-      )
+    const isTeleport =
+      teleportTags.has(element.tag) ||
+      portalTags.has(element.tag) ||
+      portalTargetTags.has(element.tag)
+    if (
+      isComponent &&
+      !component &&
+      !preset &&
+      !isTeleport &&
+      !frameworkComponents.has(element.tag)
+    ) {
+      customComponentWarnings.push({
+        file: filename,
+        component: element.tag,
+        line: location.line,
+        location,
+        message: `Custom component <${element.tag}> at ${formatLocation(location)} — source not found, locator not extracted from the rendered element. Review component source or ensure it passes data-testid down to root element.`
+      })
+    }
 
-      // Create warning for fragile locators
-      let warning: string | undefined
-      if (robustness === 'fragile') {
-        warning = generateFragileWarning(element, rawValue, type)
-        if (finalIsDynamic) {
-          warning += ' | Element may be repeated (v-for detected)'
+    for (const rule of getLocatorAttributeRules()) {
+      const attribute = element.attributes[rule.attribute]
+      if (!attribute) continue
+
+      totalMatches++
+
+      let rendering: ComponentRendering | undefined
+      if (component) {
+        const dropReason = isDeclaredProp(component, rule.attribute)
+          ? `${component.name} declares ${rule.attribute} as a prop`
+          : component.dropReason
+        if (!component.target || dropReason) {
+          customComponentWarnings.push({
+            file: filename,
+            component: element.tag,
+            line: location.line,
+            location,
+            componentFile: component.file,
+            attribute: rule.attribute,
+            message: `Custom component <${element.tag}> at ${formatLocation(location)} drops ${rule.attribute}="${attribute.value}" — ${dropReason} (${component.file})`
+          })
+          continue
+        }
+        rendering = {
+          name: element.tag,
+          element: component.target.tag,
+          file: component.file,
+          via: component.target.via
         }
-        if (isConditional) {
-          warning +=
-            ' | Element may not always be present (conditional rendering detected)'
+      } else if (preset) {
+        const { library, mapping } = preset
+        if (!forwardsAttribute(mapping, rule.attribute)) {
+          customComponentWarnings.push({
+            file: filename,
+            component: element.tag,
+            line: location.line,
+            location,
+            attribute: rule.attribute,
+            message: `Custom component <${element.tag}> at ${formatLocation(location)} drops ${rule.attribute}="${attribute.value}" — the ${library} preset does not forward it to the rendered <${mapping.element}>`
+          })
+          continue
+        }
+        rendering = {
+          name: element.tag,
+          element: mapping.element,
+          role: mapping.role,
+          library,
+          via: [element.tag]
         }
       }
 
-      // Create the locator info
-      const locatorInfo: LocatorInfo = {
-        selector: selectorResult,
-        type,
+      addAttributeLocator(
         element,
-        rawValue,
-        robustness,
-        testRelevance,
-        warning,
-        isDynamic: finalIsDynamic,
-        isConditional,
-        vueDirectives: directives,
-        customComponent,
-        parentContext: context.parentContext,
-        resolvedFromConstant
-      }
-
-      groupedLocators[keyGroup] = groupedLocators[keyGroup] || {}
-      groupedLocators[keyGroup][key] = locatorInfo
-
-      // Log discovery
-      const statusIcon = robustness === 'robust' ? '✅' : '🔸'
-      const dynamicFlag = finalIsDynamic ? ' [DYNAMIC]' : ''
-      const conditionalFlag = isConditional ? ' [CONDITIONAL]' : ''
-      const componentFlag = customComponent ? ' [CUSTOM COMPONENT]' : ''
-      const contextFlag = context.parentContext
-        ? ` (${context.parentContext})`
-        : ''
-
-      console.log(
-        `      ${statusIcon} ${key}: ${type}="${rawValue}"${dynamicFlag}${conditionalFlag}${componentFlag}${contextFlag}`
+        attribute,
+        rule,
+        keyGroup,
+        groupedLocators,
+        keyCollisions,
+        filename,
+        rendering,
+        accessibility.get(element),
+        labels.get(element)
       )
     }
   }
 
   // Debug: Show total patterns found
-  console.log(`   📊 Total attribute matches found: ${totalMatches}`)
+  log(`   📊 Total attribute matches found: ${totalMatches}`)
 
   // Enhanced: Additional fallback detection for elements without test attributes
   await detectElementsWithoutTestAttributes(
-    normalizedTemplate,
+    elements,
     keyGroup,
     groupedLocators,
-    warnings,
-    filename
+    keyCollisions,
+    filename,
+    accessibility,
+    labels
+  )
+}
+
+/**
+ * Record the locator produced by one attribute of a template element
+ */
+function addAttributeLocator(
+  templateElement: TemplateElement,
+  attribute: TemplateAttribute,
+  rule: (typeof locatorAttributeRules)[number],
+  keyGroup: string,
+  groupedLocators: Record<string, Record<string, LocatorInfo>>,
+  keyCollisions: KeyCollision[],
+  filename: string,
+  rendering?: ComponentRendering,
+  accessibility?: LocatorAccessibility,
+  label?: LocatorLabel
+) {
+  const { type } = rule
+  // Attributes passed to a component render on its target element
+  const element = rendering?.element ?? templateElement.tag
+  let rawValue = attribute.value
+  let valueTemplate: ValueTemplate | undefined
+  let resolvedFromConstant: string | undefined
+  let resolvedConstantFile: string | undefined
+  let translation: ResolvedTranslation | undefined
+  let translationTemplates: Record<string, ValueTemplate> | undefined
+
+  if (attribute.isBound) {
+    const bound = resolveBoundValue(attribute.value, templateElement, filename)
+    rawValue = bound.value
+    valueTemplate = bound.template
+    translation = bound.translation
+    translationTemplates = bound.translationTemplates
+    if (translation) {
+      log(
+        `   🌐 Resolved translation: ${translation.key} → "${bound.value}" for ${type} (${getActiveLocale()})`
+      )
+    }
+    if (bound.constantName) {
+      resolvedFromConstant = `${bound.constantName} → ${bound.value}`
+      resolvedConstantFile = bound.constantFile
+      log(
+        `   🔧 Resolved constant: ${bound.constantName} → "${bound.value}" for ${type} (${bound.constantFile})`
+      )
+    }
+  }
+
+  // Generate the selector, skipping values that cannot become one
+  const selectorResult = buildAttributeSelector(rule, rawValue, valueTemplate)
+  if (selectorResult === null) return
+
+  const context = analyzeElementContext(templateElement)
+  const attributes = getAttributeValues(templateElement, filename)
+  attributes[rule.attribute] = rawValue
+
+  // Detect Vue directives. Only a v-for repeats the element: a value with
+  // runtime holes on a single element is still one element
+  const { directives, isDynamic, isConditional } =
+    detectVueDirectives(templateElement, context.ancestors)
+
+  // Check if this is a custom component
+  const customComponent = isCustomComponent(element)
+
+  // Classify the element
+  const classification = classifyElement(element, attributes, rendering?.role)
+  const { testRelevance } = classification
+
+  // A value with no static text, e.g. :id="id", leaves an "any instance"
+  // selector that matches every element with the attribute
+  const matchesAnyElement = Boolean(valueTemplate && !hasStaticAffix(valueTemplate))
+  const robustness = matchesAnyElement ? 'fragile' : classification.robustness
+  const location = toLocatorLocation(filename, templateElement.loc)
+
+  // Generate the preferred key; collisions are resolved on registration
+  // Parameterised values are keyed on their static text
+  const baseKey = generateEnhancedKey(
+    valueTemplate
+      ? getStaticText(valueTemplate) || valueTemplate.params.join(' ')
+      : rawValue,
+    type,
+    isDynamic,
+    isConditional
+  )
+
+  // Create warning for fragile locators
+  let warning: string | undefined
+  if (matchesAnyElement) {
+    warning = generateUnanchoredWarning(element, rawValue, type, selectorResult)
+  } else if (robustness === 'fragile') {
+    warning = generateFragileWarning(element, rawValue, type)
+  }
+  if (warning) {
+    if (isDynamic) {
+      warning += ' | Element may be repeated (v-for detected)'
+    }
+    if (isConditional) {
+      warning +=
+        ' | Element may not always be present (conditional rendering detected)'
+    }
+  }
+
+  // Create the locator info
+  const locatorInfo: LocatorInfo = {
+    selector: selectorResult,
+    type,
+    element,
+    rawValue,
+    robustness,
+    testRelevance,
+    warning,
+    isDynamic,
+    isConditional,
+    vueDirectives: directives,
+    customComponent,
+    resolvedComponent: rendering,
+    parentContext: context.parentContext,
+    ancestors: context.ancestors,
+    resolvedFromConstant,
+    resolvedConstantFile,
+    valueTemplate,
+    translation:
+      translation &&
+      toLocatorTranslation(
+        translation,
+        (value, template) => buildAttributeSelector(rule, value, template),
+        translationTemplates
+      ),
+    accessibility,
+    label,
+    teleport: findTeleport(templateElement, filename),
+    row: findRow(templateElement, filename),
+    slotName: templateElement.slotName,
+    templateWrapper: templateElement.templateWrapper,
+    location
+  }
+
+  const key = registerLocator(
+    groupedLocators,
+    keyGroup,
+    baseKey,
+    locatorInfo,
+    keyCollisions,
+    templateElement.parent?.tag
+  )
+  if (!key) return
+
+  // Log discovery
+  const statusIcon = robustness === 'robust' ? '✅' : '🔸'
+  const dynamicFlag = isDynamic ? ' [DYNAMIC]' : ''
+  const conditionalFlag = isConditional ? ' [CONDITIONAL]' : ''
+  const componentFlag = customComponent ? ' [CUSTOM COMPONENT]' : ''
+  const slotFlag = templateElement.slotName
+    ? ` [SLOT #${templateElement.slotName}]`
+    : ''
+  const contextFlag = context.parentContext
+    ? ` (${context.parentContext})`
+    : ''
+
+  log(
+    `      ${statusIcon} ${key}: ${type}="${rawValue}"${dynamicFlag}${conditionalFlag}${componentFlag}${slotFlag}${contextFlag} @ ${formatLocation(location)}`
   )
 }
@@ -0,0 +1,542 @@
+import ts from 'typescript'
+import type { SourceLocation } from '@vue/compiler-dom'
+import type {
+  ParsedTemplate,
+  TemplateAttribute,
+  TemplateElement
+} from './templateAst'
+
+// JSX / render function prop names that differ from their rendered HTML attribute
+const attributeAliases: Record<string, string> = {
+  className: 'class',
+  htmlFor: 'for'
+}
+
+// Functions that create a vnode: Vue 3 h()/createVNode and Vue 2 createElement
+const renderFunctionNames = new Set([
+  'h',
+  'createElement',
+  '$createElement',
+  'createVNode',
+  '_createVNode'
+])
+
+// Vue 2 data object keys whose object value holds rendered attributes
+const nestedAttributeKeys = new Set(['attrs', 'domProps'])
+
+/**
+ * Directive equivalent of a JS expression around an element,
+ * e.g. `items.map(...)` → v-for, `cond && <el />` → v-if
+ */
+interface ScriptDirective {
+  rawName: string;
+  expression?: string;
+}
+
+/**
+ * Resolves an identifier used as a computed prop key to its string value
+ */
+export type IdentifierResolver = (name: string) => string | undefined
+
+interface ElementParts {
+  attributes: Record<string, TemplateAttribute>;
+  directives: string[];
+  directiveExpressions: Record<string, string>;
+}
+
+/**
+ * Parse JSX/TSX render code into the same element tree that SFC templates
+ * produce, so both go through one extraction pipeline
+ */
+export function parseJsx(
+  content: string,
+  filename: string,
+  resolveIdentifier?: IdentifierResolver
+): ParsedTemplate {
+  const scriptKind = filename.endsWith('.tsx')
+    ? ts.ScriptKind.TSX
+    : ts.ScriptKind.JSX
+  return parseScriptElements(content, filename, scriptKind, resolveIdentifier)
+}
+
+/**
+ * Parse `h()` / `createElement()` / `createVNode()` render function calls in
+ * JS/TS code into the template element tree
+ */
+export function parseRenderFunctions(
+  content: string,
+  filename: string,
+  resolveIdentifier?: IdentifierResolver
+): ParsedTemplate {
+  const scriptKind = filename.endsWith('.ts')
+    ? ts.ScriptKind.TS
+    : ts.ScriptKind.JS
+  return parseScriptElements(content, filename, scriptKind, resolveIdentifier)
+}
+
+function parseScriptElements(
+  content: string,
+  filename: string,
+  scriptKind: ts.ScriptKind,
+  resolveIdentifier: IdentifierResolver | undefined
+): ParsedTemplate {
+  const sourceFile = ts.createSourceFile(
+    filename,
+    content,
+    ts.ScriptTarget.Latest,
+    true,
+    scriptKind
+  )
+
+  const elements: TemplateElement[] = []
+  const roots: TemplateElement[] = []
+
+  const addElement = (
+    element: TemplateElement,
+    parent: TemplateElement | undefined
+  ) => {
+    elements.push(element)
+    if (parent) {
+      parent.children.push(element)
+    } else {
+      roots.push(element)
+    }
+  }
+
+  const visit = (
+    node: ts.Node,
+    parent: TemplateElement | undefined,
+    pending: ScriptDirective[]
+  ): void => {
+    if (ts.isJsxElement(node) || ts.isJsxSelfClosingElement(node)) {
+      const element = jsxToTemplateElement(node, sourceFile, parent, pending)
+      addElement(element, parent)
+
+      if (ts.isJsxElement(node)) {
+        node.children.forEach((child) => visit(child, element, []))
+      }
+      return
+    }
+
+    if (ts.isCallExpression(node) && isRenderFunctionCall(node)) {
+      const call = renderCallToTemplateElement(
+        node,
+        sourceFile,
+        parent,
+        pending,
+        resolveIdentifier
+      )
+      if (call) {
+        addElement(call.element, parent)
+        call.children.forEach((child) => visit(child, call.element, []))
+        return
+      }
+    }
+
+    const directive = getScriptDirective(node, sourceFile)
+    if (directive) {
+      visit(directive.body, parent, [...pending, directive.directive])
+      directive.rest.forEach((child) => visit(child, parent, pending))
+      return
+    }
+
+    if (ts.isConditionalExpression(node)) {
+      const condition = node.condition.getText(sourceFile)
+      visit(node.condition, parent, pending)
+      visit(node.whenTrue, parent, [
+        ...pending,
+        { rawName: 'v-if', expression: condition }
+      ])
+      visit(node.whenFalse, parent, [...pending, { rawName: 'v-else' }])
+      return
+    }
+
+    ts.forEachChild(node, (child) => visit(child, parent, pending))
+  }
+
+  visit(sourceFile, undefined, [])
+
+  const errors = (
+    sourceFile as ts.SourceFile & {
+      parseDiagnostics?: ts.DiagnosticWithLocation[];
+    }
+  ).parseDiagnostics?.map((diagnostic) =>
+    ts.flattenDiagnosticMessageText(diagnostic.messageText, '\n')
+  )
+
+  return { roots, elements, errors: errors || [] }
+}
+
+/**
+ * Recognise `list.map((item) => <el />)` and `cond && <el />`
+ */
+function getScriptDirective(
+  node: ts.Node,
+  sourceFile: ts.SourceFile
+): { directive: ScriptDirective; body: ts.Node; rest: ts.Node[] } | undefined {
+  if (
+    ts.isCallExpression(node) &&
+    ts.isPropertyAccessExpression(node.expression) &&
+    node.expression.name.text === 'map'
+  ) {
+    const callback = node.arguments[0]
+    if (
+      callback &&
+      (ts.isArrowFunction(callback) || ts.isFunctionExpression(callback))
+    ) {
+      const params = callback.parameters
+        .map((param) => param.getText(sourceFile))
+        .join(', ')
+      const source = node.expression.expression.getText(sourceFile)
+      const alias = callback.parameters.length > 1 ? `(${params})` : params
+      return {
+        directive: { rawName: 'v-for', expression: `${alias} in ${source}` },
+        body: callback.body,
+        rest: [node.expression.expression]
+      }
+    }
+  }
+
+  if (
+    ts.isBinaryExpression(node) &&
+    node.operatorToken.kind === ts.SyntaxKind.AmpersandAmpersandToken
+  ) {
+    return {
+      directive: { rawName: 'v-if', expression: node.left.getText(sourceFile) },
+      body: node.right,
+      rest: [node.left]
+    }
+  }
+
+  return undefined
+}
+
+function isRenderFunctionCall(node: ts.CallExpression): boolean {
+  const callee = node.expression
+  if (ts.isIdentifier(callee)) return renderFunctionNames.has(callee.text)
+  if (ts.isPropertyAccessExpression(callee)) {
+    return renderFunctionNames.has(callee.name.text)
+  }
+  return false
+}
+
+function createElementParts(pending: ScriptDirective[]): ElementParts {
+  const parts: ElementParts = {
+    attributes: {},
+    directives: [],
+    directiveExpressions: {}
+  }
+  for (const directive of pending) {
+    addDirective(parts, directive.rawName, directive.expression)
+  }
+  return parts
+}
+
+function addDirective(
+  parts: ElementParts,
+  rawName: string,
+  expression?: string
+): void {
+  parts.directives.push(rawName)
+  if (expression !== undefined) {
+    parts.directiveExpressions[rawName] = expression
+  }
+}
+
+/**
+ * Record an attribute from a JSX attribute or render function prop value
+ */
+function addAttributeValue(
+  parts: ElementParts,
+  rawName: string,
+  value: ts.Expression | undefined,
+  loc: SourceLocation,
+  sourceFile: ts.SourceFile
+): void {
+  // Event handlers are the equivalent of @event listeners
+  const eventMatch = rawName.match(/^on([A-Z][\w:-]*)$/)
+  if (eventMatch) {
+    addDirective(parts, `@${eventMatch[1].toLowerCase()}`)
+    return
+  }
+
+  const name = attributeAliases[rawName] || rawName
+
+  if (!value) {
+    parts.attributes[name] = { name, value: '', isBound: false, loc }
+  } else if (
+    ts.isStringLiteral(value) ||
+    ts.isNoSubstitutionTemplateLiteral(value)
+  ) {
+    parts.attributes[name] = { name, value: value.text, isBound: false, loc }
+  } else {
+    const expression = value.getText(sourceFile)
+    addDirective(parts, `:${name}`, expression)
+    parts.attributes[name] = { name, value: expression, isBound: true, loc }
+  }
+}
+
+function jsxToTemplateElement(
+  node: ts.JsxElement | ts.JsxSelfClosingElement,
+  sourceFile: ts.SourceFile,
+  parent: TemplateElement | undefined,
+  pending: ScriptDirective[]
+): TemplateElement {
+  const opening = ts.isJsxElement(node) ? node.openingElement : node
+  const parts = createElementParts(pending)
+
+  for (const property of opening.attributes.properties) {
+    if (ts.isJsxSpreadAttribute(property)) {
+      addDirective(parts, 'v-bind', property.expression.getText(sourceFile))
+      continue
+    }
+
+    const initializer = property.initializer
+    const value =
+      initializer && ts.isJsxExpression(initializer)
+        ? initializer.expression
+        : initializer
+    if (initializer && !value) continue
+
+    addAttributeValue(
+      parts,
+      property.name.getText(sourceFile),
+      value,
+      getSourceLocation(property, sourceFile),
+      sourceFile
+    )
+  }
+
+  const textContent = ts.isJsxElement(node)
+    ? collapseText(node.children.filter(ts.isJsxText).map((child) => child.text))
+    : ''
+
+  const interpolations = ts.isJsxElement(node)
+    ? node.children
+      .filter(ts.isJsxExpression)
+      .map((child) => child.expression?.getText(sourceFile) ?? '')
+      .filter(Boolean)
+    : []
+
+  return {
+    tag: opening.tagName.getText(sourceFile),
+    ...parts,
+    textContent,
+    interpolations,
+    loc: getSourceLocation(node, sourceFile),
+    parent,
+    children: []
+  }
+}
+
+/**
+ * Build the element for `h(tag, props?, children?)`, returning the argument
+ * nodes that hold its children
+ */
+function renderCallToTemplateElement(
+  node: ts.CallExpression,
+  sourceFile: ts.SourceFile,
+  parent: TemplateElement | undefined,
+  pending: ScriptDirective[],
+  resolveIdentifier: IdentifierResolver | undefined
+): { element: TemplateElement; children: ts.Node[] } | undefined {
+  const [tagArg, ...rest] = node.arguments
+  if (!tagArg) return undefined
+
+  const tag = getRenderTag(tagArg, sourceFile)
+  if (!tag) return undefined
+
+  const parts = createElementParts(pending)
+  let childArgs: ts.Node[] = rest
+
+  const [propsArg] = rest
+  if (propsArg && ts.isObjectLiteralExpression(propsArg) && !isSlotsObject(propsArg)) {
+    collectRenderProps(propsArg, parts, sourceFile, resolveIdentifier)
+    childArgs = rest.slice(1)
+  }
+
+  const textContent = collapseText(
+    childArgs
+      .filter(
+        (arg): arg is ts.StringLiteral | ts.NoSubstitutionTemplateLiteral =>
+          ts.isStringLiteral(arg) || ts.isNoSubstitutionTemplateLiteral(arg)
+      )
+      .map((arg) => arg.text)
+  )
+
+  // Child calls such as t('nav.orders') render as text
+  const interpolations = childArgs
+    .filter(
+      (arg): arg is ts.CallExpression =>
+        ts.isCallExpression(arg) && !isRenderFunctionCall(arg)
+    )
+    .map((arg) => arg.getText(sourceFile))
+
+  return {
+    element: {
+      tag,
+      ...parts,
+      textContent,
+      interpolations,
+      loc: getSourceLocation(node, sourceFile),
+      parent,
+      children: []
+    },
+    children: childArgs
+  }
+}
+
+/**
+ * Tag of a render call: an HTML tag string, `resolveComponent('name')`, or
+ * an imported component identifier
+ */
+function getRenderTag(
+  tagArg: ts.Expression,
+  sourceFile: ts.SourceFile
+): string | undefined {
+  if (ts.isStringLiteral(tagArg) || ts.isNoSubstitutionTemplateLiteral(tagArg)) {
+    return tagArg.text
+  }
+  if (
+    ts.isCallExpression(tagArg) &&
+    tagArg.expression.getText(sourceFile) === 'resolveComponent' &&
+    tagArg.arguments[0] &&
+    ts.isStringLiteral(tagArg.arguments[0])
+  ) {
+    return tagArg.arguments[0].text
+  }
+  if (ts.isIdentifier(tagArg) || ts.isPropertyAccessExpression(tagArg)) {
+    return tagArg.getText(sourceFile)
+  }
+  return undefined
+}
+
+/**
+ * Vue 3 components take slot functions in place of props: `h(Comp, { default: () => ... })`
+ */
+function isSlotsObject(node: ts.ObjectLiteralExpression): boolean {
+  return (
+    node.properties.length > 0 &&
+    node.properties.every(
+      (property) =>
+        (ts.isPropertyAssignment(property) &&
+          (ts.isArrowFunction(property.initializer) ||
+            ts.isFunctionExpression(property.initializer))) ||
+        ts.isMethodDeclaration(property)
+    )
+  )
+}
+
+/**
+ * Read a render function props / Vue 2 data object into element attributes,
+ * following `attrs` / `domProps`, `on` listeners and inline spreads
+ */
+function collectRenderProps(
+  props: ts.ObjectLiteralExpression,
+  parts: ElementParts,
+  sourceFile: ts.SourceFile,
+  resolveIdentifier: IdentifierResolver | undefined
+): void {
+  for (const property of props.properties) {
+    if (ts.isSpreadAssignment(property)) {
+      if (ts.isObjectLiteralExpression(property.expression)) {
+        collectRenderProps(property.expression, parts, sourceFile, resolveIdentifier)
+      } else {
+        addDirective(parts, 'v-bind', property.expression.getText(sourceFile))
+      }
+      continue
+    }
+
+    if (ts.isShorthandPropertyAssignment(property)) {
+      addAttributeValue(
+        parts,
+        property.name.text,
+        property.name,
+        getSourceLocation(property, sourceFile),
+        sourceFile
+      )
+      continue
+    }
+
+    if (!ts.isPropertyAssignment(property)) continue
+
+    const name = getPropertyName(property.name, sourceFile, resolveIdentifier)
+    if (!name) continue
+
+    const value = property.initializer
+    if (nestedAttributeKeys.has(name) && ts.isObjectLiteralExpression(value)) {
+      collectRenderProps(value, parts, sourceFile, resolveIdentifier)
+      continue
+    }
+
+    // Vue 2 listeners: on: { click: handler }
+    if (name === 'on' && ts.isObjectLiteralExpression(value)) {
+      value.properties.forEach((listener) => {
+        const event = listener.name
+          ? getPropertyName(listener.name, sourceFile, resolveIdentifier)
+          : undefined
+        if (event) addDirective(parts, `@${event}`)
+      })
+      continue
+    }
+
+    addAttributeValue(
+      parts,
+      name,
+      value,
+      getSourceLocation(property, sourceFile),
+      sourceFile
+    )
+  }
+}
+
+/**
+ * Static name of an object key, resolving computed keys such as
+ * `['data-testid']` or `[TEST_ID_ATTR]`
+ */
+function getPropertyName(
+  name: ts.PropertyName,
+  sourceFile: ts.SourceFile,
+  resolveIdentifier: IdentifierResolver | undefined
+): string | undefined {
+  if (
+    ts.isIdentifier(name) ||
+    ts.isStringLiteral(name) ||
+    ts.isNumericLiteral(name)
+  ) {
+    return name.text
+  }
+  if (ts.isComputedPropertyName(name)) {
+    const expression = name.expression
+    if (
+      ts.isStringLiteral(expression) ||
+      ts.isNoSubstitutionTemplateLiteral(expression)
+    ) {
+      return expression.text
+    }
+    return resolveIdentifier?.(expression.getText(sourceFile))
+  }
+  return undefined
+}
+
+function collapseText(parts: string[]): string {
+  return parts.join(' ').replace(/\s+/g, ' ').trim()
+}
+
+function getSourceLocation(
+  node: ts.Node,
+  sourceFile: ts.SourceFile
+): SourceLocation {
+  const toPosition = (offset: number) => {
+    const { line, character } =
+      sourceFile.getLineAndCharacterOfPosition(offset)
+    return { offset, line: line + 1, column: character + 1 }
+  }
+
+  const startOffset = node.getStart(sourceFile)
+  return {
+    start: toPosition(startOffset),
+    end: toPosition(node.getEnd()),
+    source: node.getText(sourceFile)
+  }
+}
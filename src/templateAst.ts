@@ -0,0 +1,419 @@
+import {
+  parse,
+  NodeTypes,
+  type AttributeNode,
+  type DirectiveNode,
+  type ElementNode,
+  type Position,
+  type SourceLocation,
+  type TemplateChildNode,
+  type TextNode
+} from '@vue/compiler-dom'
+import ts from 'typescript'
+
+/**
+ * A static (`name="value"`) or bound (`:name="expr"`) attribute on an element
+ */
+export interface TemplateAttribute {
+  name: string;
+  value: string;
+  isBound: boolean;
+  loc: SourceLocation;
+}
+
+/**
+ * An element of the parsed template, with its attributes and directives
+ */
+export interface TemplateElement {
+  tag: string;
+  attributes: Record<string, TemplateAttribute>;
+  directives: string[];
+  directiveExpressions: Record<string, string>;
+  textContent: string;
+  interpolations: string[]; // Expressions of direct `{{ ... }}` children
+  loc: SourceLocation;
+  parent?: TemplateElement;
+  children: TemplateElement[];
+  slotName?: string;
+  templateWrapper?: string;
+}
+
+/**
+ * One element of a locator's ancestor chain: the tag, the attributes that
+ * identify it and the directives that decide whether and how often it renders
+ */
+export interface ElementAncestor {
+  tag: string;
+  attributes: Record<string, string>;
+  renderDirectives: Record<string, string>; // e.g. { 'v-for': 'order in orders' }
+  position: Position; // File-relative start of the element
+}
+
+export interface ParsedTemplate {
+  roots: TemplateElement[];
+  elements: TemplateElement[];
+  errors: string[];
+}
+
+// Attribute a template preprocessor puts on each element with the
+// `line:column` the element was written at in the original source
+export const sourcePositionAttribute = 'data-source-position'
+
+// Directives that turn a <template> element into a structural wrapper
+const structuralDirectives = ['v-if', 'v-else-if', 'v-else', 'v-for']
+
+// Directives that decide whether and how often an element renders
+export const renderDirectives = ['v-for', 'v-if', 'v-else-if', 'v-else', 'v-show']
+
+// Attributes that identify an ancestor in a chain
+const identifyingAttributes = [
+  'key',
+  'id',
+  'data-testid',
+  'data-test-id',
+  'data-test',
+  'name',
+  'role',
+  'class'
+]
+
+/**
+ * Parse template markup with the Vue compiler and flatten it into elements
+ * in document order. `origin` is the position of the markup inside its file,
+ * so that every location is reported relative to the file. For markup compiled
+ * by a preprocessor, `preprocessedSource` is the original source that the
+ * elements' recorded positions point into
+ */
+export function parseTemplate(
+  content: string,
+  origin?: Position,
+  preprocessedSource?: string
+): ParsedTemplate {
+  const errors: string[] = []
+  const ast = parse(content, {
+    comments: false,
+    onError: (error) => {
+      errors.push(error.message)
+    }
+  })
+
+  const elements: TemplateElement[] = []
+  const roots = collectElements(ast.children, undefined, elements)
+
+  if (preprocessedSource !== undefined) {
+    mapPreprocessedLocations(elements, preprocessedSource)
+  }
+
+  if (origin) {
+    for (const element of elements) {
+      element.loc = shiftLocation(element.loc, origin)
+      for (const attribute of Object.values(element.attributes)) {
+        attribute.loc = shiftLocation(attribute.loc, origin)
+      }
+    }
+  }
+
+  return { roots, elements, errors }
+}
+
+function collectElements(
+  nodes: TemplateChildNode[],
+  parent: TemplateElement | undefined,
+  elements: TemplateElement[]
+): TemplateElement[] {
+  const collected: TemplateElement[] = []
+
+  for (const node of nodes) {
+    if (node.type !== NodeTypes.ELEMENT) continue
+
+    const element = toTemplateElement(node, parent)
+    elements.push(element)
+    collected.push(element)
+    element.children = collectElements(node.children, element, elements)
+  }
+
+  return collected
+}
+
+function toTemplateElement(
+  node: ElementNode,
+  parent: TemplateElement | undefined
+): TemplateElement {
+  const attributes: Record<string, TemplateAttribute> = {}
+  const directives: string[] = []
+  const directiveExpressions: Record<string, string> = {}
+
+  for (const prop of node.props) {
+    if (prop.type === NodeTypes.ATTRIBUTE) {
+      attributes[prop.name] = toStaticAttribute(prop)
+      continue
+    }
+
+    const rawName = prop.rawName || `v-${prop.name}`
+    const expression = getExpressionSource(prop)
+    directives.push(rawName)
+    if (expression !== undefined) {
+      directiveExpressions[rawName] = expression
+    }
+
+    // Bound attributes only fill in when there is no static attribute of the same name
+    const boundName = getBoundAttributeName(prop)
+    if (boundName && expression !== undefined && !attributes[boundName]) {
+      attributes[boundName] = {
+        name: boundName,
+        value: expression,
+        isBound: true,
+        loc: prop.loc
+      }
+    }
+  }
+
+  return {
+    tag: node.tag,
+    attributes,
+    directives,
+    directiveExpressions,
+    textContent: getDirectText(node),
+    interpolations: getDirectInterpolations(node),
+    loc: node.loc,
+    parent,
+    children: [],
+    slotName: getSlotName(node) ?? parent?.slotName,
+    templateWrapper:
+      getTemplateWrapper(node, directiveExpressions) ?? parent?.templateWrapper
+  }
+}
+
+/**
+ * Slot name for `<template #name>`, `<template v-slot:name>` or a component
+ * using `v-slot` directly (the default slot)
+ */
+function getSlotName(node: ElementNode): string | undefined {
+  const slot = node.props.find(
+    (prop): prop is DirectiveNode =>
+      prop.type === NodeTypes.DIRECTIVE && prop.name === 'slot'
+  )
+  if (!slot) return undefined
+  if (!slot.arg || slot.arg.type !== NodeTypes.SIMPLE_EXPRESSION) {
+    return 'default'
+  }
+  return slot.arg.isStatic ? slot.arg.content : `[${slot.arg.content}]`
+}
+
+/**
+ * Structural directive of a `<template v-if>` / `<template v-for>` wrapper,
+ * e.g. `v-for="item in items"`
+ */
+function getTemplateWrapper(
+  node: ElementNode,
+  directiveExpressions: Record<string, string>
+): string | undefined {
+  if (node.tag !== 'template') return undefined
+
+  const directive = node.props.find(
+    (prop): prop is DirectiveNode =>
+      prop.type === NodeTypes.DIRECTIVE &&
+      structuralDirectives.includes(`v-${prop.name}`)
+  )
+  if (!directive) return undefined
+
+  const rawName = directive.rawName || `v-${directive.name}`
+  const expression = directiveExpressions[rawName]
+  return expression === undefined ? rawName : `${rawName}="${expression}"`
+}
+
+function toStaticAttribute(prop: AttributeNode): TemplateAttribute {
+  return {
+    name: prop.name,
+    value: prop.value ? prop.value.content : '',
+    isBound: false,
+    loc: prop.loc
+  }
+}
+
+function getExpressionSource(prop: DirectiveNode): string | undefined {
+  if (!prop.exp) return undefined
+  return prop.exp.loc.source.trim()
+}
+
+/**
+ * Name of the attribute a `:name` / `v-bind:name` directive binds, if static
+ */
+function getBoundAttributeName(prop: DirectiveNode): string | undefined {
+  if (prop.name !== 'bind' || !prop.arg) return undefined
+  if (prop.arg.type !== NodeTypes.SIMPLE_EXPRESSION || !prop.arg.isStatic) {
+    return undefined
+  }
+  return prop.arg.content
+}
+
+/**
+ * Static text placed directly inside an element, whitespace-collapsed
+ */
+function getDirectText(node: ElementNode): string {
+  return node.children
+    .filter((child): child is TextNode => child.type === NodeTypes.TEXT)
+    .map((child) => child.content)
+    .join(' ')
+    .replace(/\s+/g, ' ')
+    .trim()
+}
+
+function getDirectInterpolations(node: ElementNode): string[] {
+  return node.children
+    .filter((child) => child.type === NodeTypes.INTERPOLATION)
+    .map((child) =>
+      child.type === NodeTypes.INTERPOLATION &&
+      child.content.type === NodeTypes.SIMPLE_EXPRESSION
+        ? child.content.content.trim()
+        : ''
+    )
+    .filter(Boolean)
+}
+
+/**
+ * Point element locations back at the preprocessor source, using the
+ * positions the preprocessor recorded on each element
+ */
+function mapPreprocessedLocations(
+  elements: TemplateElement[],
+  source: string
+): void {
+  const lines = source.split('\n')
+  const lineOffsets: number[] = []
+  let offset = 0
+  for (const line of lines) {
+    lineOffsets.push(offset)
+    offset += line.length + 1
+  }
+
+  for (const element of elements) {
+    const marker = element.attributes[sourcePositionAttribute]
+    delete element.attributes[sourcePositionAttribute]
+    if (!marker) continue
+
+    const [line, column] = marker.value.split(':').map(Number)
+    if (!line || line > lines.length) continue
+
+    const lineText = lines[line - 1]
+    const start = lineOffsets[line - 1] + column - 1
+    const loc: SourceLocation = {
+      start: { offset: start, line, column },
+      end: {
+        offset: lineOffsets[line - 1] + lineText.length,
+        line,
+        column: lineText.length + 1
+      },
+      source: lineText.substring(column - 1)
+    }
+
+    element.loc = loc
+    for (const attribute of Object.values(element.attributes)) {
+      attribute.loc = loc
+    }
+  }
+}
+
+function shiftLocation(loc: SourceLocation, origin: Position): SourceLocation {
+  return {
+    start: shiftPosition(loc.start, origin),
+    end: shiftPosition(loc.end, origin),
+    source: loc.source
+  }
+}
+
+function shiftPosition(position: Position, origin: Position): Position {
+  return {
+    offset: origin.offset + position.offset,
+    line: origin.line + position.line - 1,
+    column:
+      position.line === 1
+        ? origin.column + position.column - 1
+        : position.column
+  }
+}
+
+/**
+ * Summarise an element for an ancestor chain. Bound attributes keep their
+ * expression, so `:key="order.id"` is recorded as `key: order.id`
+ */
+export function toElementAncestor(element: TemplateElement): ElementAncestor {
+  const attributes: Record<string, string> = {}
+  for (const name of identifyingAttributes) {
+    const attribute = element.attributes[name]
+    if (attribute) attributes[name] = attribute.value
+  }
+
+  const directives: Record<string, string> = {}
+  for (const name of renderDirectives) {
+    if (element.directives.includes(name)) {
+      directives[name] = element.directiveExpressions[name] ?? ''
+    }
+  }
+
+  return {
+    tag: element.tag,
+    attributes,
+    renderDirectives: directives,
+    position: element.loc.start
+  }
+}
+
+/**
+ * Every ancestor of an element, outermost first
+ */
+export function getAncestorChain(element: TemplateElement): ElementAncestor[] {
+  const chain: ElementAncestor[] = []
+  for (let parent = element.parent; parent; parent = parent.parent) {
+    chain.unshift(toElementAncestor(parent))
+  }
+  return chain
+}
+
+/**
+ * Names the template scope binds for an element: the aliases of `v-for` on
+ * the element or an ancestor and the props of enclosing scoped slots, e.g.
+ * `order`, `index` and `item` for `v-for="(order, index) in orders"` inside
+ * `<template #row="{ item }">`
+ */
+export function getScopeNames(element: TemplateElement): Set<string> {
+  const names = new Set<string>()
+  for (let node: TemplateElement | undefined = element; node; node = node.parent) {
+    for (const [rawName, expression] of Object.entries(node.directiveExpressions)) {
+      if (rawName === 'v-for') {
+        const alias = expression.split(/\s+(?:in|of)\s+/)[0].trim()
+        collectBindingNames(alias.replace(/^\(([\s\S]*)\)$/, '$1'), names)
+      } else if (rawName.startsWith('#') || /^v-slot(:|$)/.test(rawName)) {
+        collectBindingNames(expression, names)
+      }
+    }
+  }
+  return names
+}
+
+/**
+ * Identifiers declared by a parameter list such as `{ id, name: label }, index`
+ */
+function collectBindingNames(params: string, names: Set<string>): void {
+  const sourceFile = ts.createSourceFile(
+    'scope.ts',
+    `(${params}) => 0`,
+    ts.ScriptTarget.Latest,
+    true
+  )
+  const statement = sourceFile.statements[0]
+  if (!statement || !ts.isExpressionStatement(statement)) return
+  const fn = statement.expression
+  if (!ts.isArrowFunction(fn)) return
+
+  const visit = (name: ts.BindingName) => {
+    if (ts.isIdentifier(name)) {
+      names.add(name.text)
+      return
+    }
+    for (const binding of name.elements) {
+      if (!ts.isOmittedExpression(binding)) visit(binding.name)
+    }
+  }
+  fn.parameters.forEach((param) => visit(param.name))
+}
@@ -0,0 +1,148 @@
+import pug from 'pug'
+import { sourcePositionAttribute } from './templateAst'
+
+/**
+ * Compiles a `<template lang="...">` block to HTML before extraction.
+ * Every element in the returned HTML must carry `sourcePositionAttribute`
+ * with its `line:column` in the original source, so that locations still map
+ * back to the file the developer edits
+ */
+export interface TemplatePreprocessor {
+  langs: string[];
+  compile(source: string, filename: string): string;
+}
+
+// Minimal shape of the Pug AST nodes we walk
+interface PugNode {
+  type: string;
+  line?: number;
+  column?: number;
+  attrs?: Array<{ name: string; val: string | boolean; mustEscape: boolean }>;
+  attributeBlocks?: unknown[];
+  call?: boolean; // A mixin call rather than its definition
+  nodes?: PugNode[];
+  block?: PugNode;
+  consequent?: PugNode;
+  alternate?: PugNode;
+}
+
+const pugPreprocessor: TemplatePreprocessor = {
+  langs: ['pug', 'jade'],
+  compile(source, filename) {
+    return pug.render(source, {
+      filename,
+      doctype: 'html',
+      plugins: [
+        { postParse: removePugCode },
+        { postParse: markPugSourcePositions }
+      ]
+    })
+  }
+}
+
+// Pug attribute values are JavaScript expressions; these are plain literals
+const pugLiteralPattern =
+  /^\s*(?:'(?:[^'\\]|\\.)*'|"(?:[^"\\]|\\.)*"|`(?:[^`$\\]|\\.)*`|-?\d+(?:\.\d+)?|true|false|null)\s*$/
+
+// Pug nodes holding JavaScript or content read from another file
+const droppedPugNodes = new Set([
+  'Code',
+  'Filter',
+  'IncludeFilter',
+  'Include',
+  'RawInclude',
+  'Extends'
+])
+
+// Pug nodes that pick or repeat their blocks by a JavaScript expression
+const flattenedPugNodes = new Set([
+  'Conditional',
+  'Each',
+  'EachOf',
+  'While',
+  'Case',
+  'When',
+  'InterpolatedTag'
+])
+
+/**
+ * Strip everything Pug would run as JavaScript while rendering, so scanning
+ * a project never executes code from its templates. `-` / `=` code and
+ * `#{}` interpolations are dropped; conditionals, loops, cases and mixin
+ * calls are flattened into their blocks, so every branch renders once;
+ * attribute values other than literals become their source text. Mixin
+ * definitions, filters, includes and extends are not followed
+ */
+function removePugCode(ast: PugNode): PugNode {
+  const blockNodes = (node: PugNode | undefined): PugNode[] => {
+    if (!node) return []
+    return node.type === 'Block' ? (node.nodes ?? []).flatMap(strip) : strip(node)
+  }
+
+  const strip = (node: PugNode): PugNode[] => {
+    if (droppedPugNodes.has(node.type)) return []
+    if (node.type === 'Mixin' && !node.call) return []
+    if (node.type === 'Mixin' || flattenedPugNodes.has(node.type)) {
+      return [node.consequent, node.block, node.alternate].flatMap(blockNodes)
+    }
+
+    node.attrs?.forEach((attr) => {
+      if (typeof attr.val === 'string' && !pugLiteralPattern.test(attr.val)) {
+        attr.val = JSON.stringify(attr.val)
+      }
+    })
+    if (node.attributeBlocks) node.attributeBlocks = []
+    if (node.nodes) node.nodes = node.nodes.flatMap(strip)
+    if (node.block) node.block.nodes = blockNodes(node.block)
+    return [node]
+  }
+
+  ast.nodes = blockNodes(ast)
+  return ast
+}
+
+/**
+ * Tag every Pug element with the position it was written at
+ */
+function markPugSourcePositions(ast: PugNode): PugNode {
+  const walk = (node: PugNode | undefined): void => {
+    if (!node) return
+
+    if (node.type === 'Tag' && node.attrs) {
+      node.attrs.push({
+        name: sourcePositionAttribute,
+        val: JSON.stringify(`${node.line}:${node.column ?? 1}`),
+        mustEscape: true
+      })
+    }
+
+    node.nodes?.forEach(walk)
+    walk(node.block)
+    walk(node.consequent)
+    walk(node.alternate)
+  }
+
+  walk(ast)
+  return ast
+}
+
+const templatePreprocessors = new Map<string, TemplatePreprocessor>()
+
+/**
+ * Register a preprocessor for one or more template `lang` values
+ */
+export function registerTemplatePreprocessor(
+  preprocessor: TemplatePreprocessor
+): void {
+  for (const lang of preprocessor.langs) {
+    templatePreprocessors.set(lang, preprocessor)
+  }
+}
+
+export function getTemplatePreprocessor(
+  lang: string
+): TemplatePreprocessor | undefined {
+  return templatePreprocessors.get(lang)
+}
+
+registerTemplatePreprocessor(pugPreprocessor)
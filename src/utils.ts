@@ -77,3 +77,15 @@ export function generateLocatorName(
 
   return name || 'element'
 }
+
+/**
+ * Converts a character offset into a 1-based line and column
+ */
+export function getLineAndColumn(
+  content: string,
+  offset: number
+): { line: number; column: number } {
+  const before = content.substring(0, offset)
+  const lines = before.split('\n')
+  return { line: lines.length, column: lines[lines.length - 1].length + 1 }
+}
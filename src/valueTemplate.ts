@@ -0,0 +1,213 @@
+import ts from 'typescript'
+
+/**
+ * One piece of a dynamic attribute value: static text, or a hole filled in
+ * at runtime by a template expression
+ */
+export type ValueTemplatePart =
+  | { kind: 'text'; value: string }
+  | { kind: 'hole'; expression: string; param: string };
+
+/**
+ * A bound attribute value modelled as a template with named holes,
+ * e.g. `order-row-{order.id}` for ``:data-testid="`order-row-${order.id}`"``
+ */
+export interface ValueTemplate {
+  pattern: string;
+  parts: ValueTemplatePart[];
+  params: string[]; // Parameter names, in hole order
+}
+
+// Resolves a sub-expression to a static value (constants), if it has one
+export type StaticValueResolver = (expression: string) => string | undefined
+
+// Prefixes that carry no meaning in a parameter name
+const ignoredReferenceRoots = new Set(['this', 'props', '$props', 'ctx', '_ctx'])
+
+/**
+ * Model a bound attribute expression as a value template. String literals,
+ * template literals and `+` concatenations are split into text and holes;
+ * sub-expressions the resolver knows become static text
+ */
+export function parseValueTemplate(
+  expression: string,
+  resolveStatic: StaticValueResolver
+): ValueTemplate {
+  const sourceFile = ts.createSourceFile(
+    'binding.ts',
+    `(${expression})`,
+    ts.ScriptTarget.Latest,
+    true
+  )
+  const statement = sourceFile.statements[0]
+
+  const rawParts: Array<
+    { kind: 'text'; value: string } | { kind: 'hole'; expression: string }
+  > = []
+  const addText = (value: string) => {
+    if (value) rawParts.push({ kind: 'text', value })
+  }
+
+  const visit = (node: ts.Expression): void => {
+    if (ts.isParenthesizedExpression(node)) {
+      visit(node.expression)
+    } else if (
+      ts.isStringLiteral(node) ||
+      ts.isNoSubstitutionTemplateLiteral(node)
+    ) {
+      addText(node.text)
+    } else if (ts.isTemplateExpression(node)) {
+      addText(node.head.text)
+      for (const span of node.templateSpans) {
+        visit(span.expression)
+        addText(span.literal.text)
+      }
+    } else if (
+      ts.isBinaryExpression(node) &&
+      node.operatorToken.kind === ts.SyntaxKind.PlusToken
+    ) {
+      visit(node.left)
+      visit(node.right)
+    } else {
+      const text = node.getText(sourceFile)
+      const resolved = resolveStatic(text)
+      if (resolved !== undefined) {
+        addText(resolved)
+      } else {
+        rawParts.push({ kind: 'hole', expression: text })
+      }
+    }
+  }
+
+  if (statement && ts.isExpressionStatement(statement)) {
+    visit(statement.expression)
+  } else {
+    rawParts.push({ kind: 'hole', expression: expression.trim() })
+  }
+
+  // Merge adjacent text and name the holes
+  const parts: ValueTemplatePart[] = []
+  const params: string[] = []
+  for (const part of rawParts) {
+    const previous = parts[parts.length - 1]
+    if (part.kind === 'text') {
+      if (previous?.kind === 'text') {
+        previous.value += part.value
+      } else {
+        parts.push({ ...part })
+      }
+      continue
+    }
+
+    const param = uniqueParamName(toParamName(part.expression), params)
+    params.push(param)
+    parts.push({ kind: 'hole', expression: part.expression, param })
+  }
+
+  const pattern = parts
+    .map((part) => (part.kind === 'text' ? part.value : `{${part.expression}}`))
+    .join('')
+
+  return { pattern, parts, params }
+}
+
+/**
+ * Whether a template has runtime holes at all
+ */
+export function hasHoles(template: ValueTemplate): boolean {
+  return template.params.length > 0
+}
+
+/**
+ * The static text around the holes, e.g. `order-row-` for
+ * `order-row-{order.id}`
+ */
+export function getStaticText(template: ValueTemplate): string {
+  return template.parts
+    .filter((part) => part.kind === 'text')
+    .map((part) => (part.kind === 'text' ? part.value : ''))
+    .join(' ')
+}
+
+/**
+ * Leading and trailing static text of a template, for prefix/suffix matching
+ */
+export function getTemplateAffixes(template: ValueTemplate): {
+  prefix: string;
+  suffix: string;
+  infix: string;
+} {
+  const { parts } = template
+  const first = parts[0]
+  const last = parts[parts.length - 1]
+  const prefix = first?.kind === 'text' ? first.value : ''
+  const suffix = parts.length > 1 && last?.kind === 'text' ? last.value : ''
+  const middle = parts
+    .slice(1, -1)
+    .find((part) => part.kind === 'text')
+  const infix = middle?.kind === 'text' ? middle.value : ''
+  return { prefix, suffix, infix }
+}
+
+/**
+ * Name the holes of `template` after the holes of `reference` with the
+ * same expression, so both take the same parameters, e.g. the same message
+ * in two locales. Undefined when a hole has no counterpart in `reference`
+ */
+export function alignTemplateParams(
+  template: ValueTemplate,
+  reference: ValueTemplate
+): ValueTemplate | undefined {
+  const params = new Map<string, string>()
+  for (const part of reference.parts) {
+    if (part.kind === 'hole' && !params.has(part.expression)) {
+      params.set(part.expression, part.param)
+    }
+  }
+
+  const parts: ValueTemplatePart[] = []
+  for (const part of template.parts) {
+    if (part.kind === 'text') {
+      parts.push(part)
+      continue
+    }
+    const param = params.get(part.expression)
+    if (!param) return undefined
+    parts.push({ ...part, param })
+  }
+  return { pattern: template.pattern, parts, params: reference.params }
+}
+
+/**
+ * Name a parameter after its expression: `order.id` → `orderId`,
+ * `props.userName` → `userName`; anything else becomes `value`
+ */
+function toParamName(expression: string): string {
+  if (!/^[A-Za-z_$][\w$]*(\??\.[A-Za-z_$][\w$]*)*$/.test(expression)) {
+    return 'value'
+  }
+
+  const segments = expression
+    .split(/\??\./)
+    .map((segment) => segment.replace(/\$/g, ''))
+    .filter(Boolean)
+  while (segments.length > 1 && ignoredReferenceRoots.has(segments[0])) {
+    segments.shift()
+  }
+
+  const name = segments
+    .map((segment, index) =>
+      index === 0
+        ? segment.charAt(0).toLowerCase() + segment.slice(1)
+        : segment.charAt(0).toUpperCase() + segment.slice(1)
+    )
+    .join('')
+  return name || 'value'
+}
+
+function uniqueParamName(name: string, taken: string[]): string {
+  if (!taken.includes(name)) return name
+  let index = 2
+  while (taken.includes(`${name}${index}`)) index++
+  return `${name}${index}`
+}
@@ -0,0 +1,36 @@
+import { defineComponent, type PropType } from 'vue'
+
+interface Order {
+  id: string;
+  number: string;
+}
+
+export default defineComponent({
+  name: 'OrderTable',
+  props: {
+    orders: { type: Array as PropType<Order[]>, required: true },
+    loading: Boolean
+  },
+  setup(props, { emit }) {
+    return () => (
+      <div class="order-table" data-testid="order-table">
+        {props.loading && <span data-testid="order-table-loading">Loading...</span>}
+        <ul>
+          {props.orders.map((order) => (
+            <li key={order.id} data-testid={`order-item-${order.id}`}>
+              {order.number}
+              <button data-testid="order-remove" onClick={() => emit('remove', order)}>
+                Remove
+              </button>
+            </li>
+          ))}
+        </ul>
+        {props.orders.length === 0 ? (
+          <p data-testid="order-table-empty">No orders</p>
+        ) : (
+          <button className="btn export-btn" onClick={() => emit('export')}>Export</button>
+        )}
+      </div>
+    )
+  }
+})
@@ -0,0 +1,18 @@
+const LOGIN_PREFIX = 'login'
+
+export const TEST_IDS = {
+  login: {
+    username: `${LOGIN_PREFIX}-username`,
+    submit: `${LOGIN_PREFIX}-submit`
+  },
+  orders: {
+    row: 'order-row'
+  }
+} as const
+
+export enum TestId {
+  Cancel = 'cancel-btn',
+  Help = 'help-link'
+}
+
+export const SUBMIT_LABEL = 'Sign in'
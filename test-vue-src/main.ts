@@ -0,0 +1,9 @@
+import { createApp } from 'vue'
+import App from './orders.vue'
+import BaseButton from './BaseButton.vue'
+
+const app = createApp(App)
+
+app.component('BaseButton', BaseButton)
+
+app.mount('#app')
@@ -0,0 +1,39 @@
+import { h, defineComponent } from 'vue'
+import AppIcon from './AppIcon.vue'
+
+const TOOLBAR_TESTID = 'toolbar'
+const TEST_ID_ATTR = 'data-testid'
+
+// Vue 3 render function with nested children and conditionals
+export const Toolbar = defineComponent({
+  props: { actions: Array, canExport: Boolean },
+  setup(props) {
+    const sharedAttrs = { role: 'toolbar' }
+
+    return () =>
+      h('div', { class: 'toolbar', [TEST_ID_ATTR]: TOOLBAR_TESTID, ...sharedAttrs }, [
+        h(AppIcon, { name: 'menu', 'aria-label': 'Toolbar menu' }),
+        (props.actions as string[]).map((action) =>
+          h('button', { 'data-testid': `toolbar-${action}`, onClick: () => action }, action)
+        ),
+        props.canExport
+          ? h('button', { 'data-testid': 'toolbar-export' }, 'Export')
+          : null
+      ])
+  }
+})
+
+// Vue 2 createElement with a data object
+export const LegacyLink = {
+  render(createElement: (...args: unknown[]) => unknown) {
+    return createElement(
+      'a',
+      {
+        attrs: { href: '/help', 'data-testid': 'legacy-help-link', 'aria-label': 'Help' },
+        domProps: { id: 'legacy-help' },
+        on: { click: () => undefined }
+      },
+      'Help'
+    )
+  }
+}
@@ -0,0 +1,30 @@
+import { createRouter, createWebHistory } from 'vue-router'
+import Dashboard from './dashboard.vue'
+import Orders from './orders.vue'
+
+const Settings = () => import('./settings.vue')
+
+const accountRoutes = [
+  {
+    path: '/settings',
+    name: 'settings',
+    component: Settings,
+    children: [
+      {
+        path: 'profile',
+        name: 'settings-profile',
+        component: () => import('./profileForm.vue')
+      }
+    ]
+  }
+]
+
+export default createRouter({
+  history: createWebHistory(),
+  routes: [
+    { path: '/', name: 'dashboard', component: Dashboard },
+    { path: '/login', name: 'login', component: () => import('./loginForm') },
+    { path: '/orders', name: 'orders', component: Orders },
+    ...accountRoutes
+  ]
+})